@@ -0,0 +1,14 @@
+-- Wallets reference their user through the `user` column, like the other tables, and carry
+-- the trader type, server group and active flag the traders are selected by
+ALTER TABLE `users_wallets` DROP FOREIGN KEY `users_wallets_ibfk_1`;
+
+ALTER TABLE `users_wallets`
+  CHANGE `user_id` `user` int NOT NULL,
+  RENAME INDEX `user_id` TO `user`,
+  ADD `trader_type` int NOT NULL DEFAULT '3' COMMENT '3=dYdX trader' AFTER `address`,
+  ADD `server_group` varchar(255) DEFAULT NULL COMMENT 'server group of the instances following the wallet' AFTER `trader_type`,
+  ADD `is_active` tinyint(1) NOT NULL DEFAULT '1' AFTER `server_group`,
+  ADD KEY `traders` (`trader_type`, `server_group`, `is_active`);
+
+ALTER TABLE `users_wallets`
+  ADD CONSTRAINT `users_wallets_ibfk_1` FOREIGN KEY (`user`) REFERENCES `users` (`id`);
@@ -0,0 +1,15 @@
+-- Wallets are followed on a list of subaccounts, and trades record the subaccount they are on
+ALTER TABLE `users_wallets`
+  ADD `subaccounts` varchar(255) DEFAULT '0' COMMENT 'comma separated subaccount numbers, or all' AFTER `address`;
+
+ALTER TABLE `trades_dex`
+  ADD `subaccount` int NOT NULL DEFAULT '0' COMMENT '0-127=cross margin, 128+=isolated margin' AFTER `trader_address`;
+
+-- Last block height processed per subaccount, used to backfill gaps
+CREATE TABLE `subaccounts_sync` (
+  `subaccount_id` varchar(255) NOT NULL COMMENT 'address/subaccount',
+  `last_height` bigint NOT NULL,
+  `resync_from` bigint DEFAULT NULL COMMENT 'block height to backfill from on the next subscription, requested by the admin CLI',
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`subaccount_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
@@ -0,0 +1,14 @@
+-- Notifications recorded with the trades, published to RabbitMQ by the dispatcher
+CREATE TABLE `notifications_outbox` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `dedup_key` varchar(255) NOT NULL,
+  `queue` varchar(255) NOT NULL,
+  `message` text NOT NULL,
+  `expiration` int DEFAULT NULL,
+  `attempts` int NOT NULL DEFAULT '0',
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `sent_at` datetime DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `dedup_key` (`dedup_key`),
+  KEY `sent_at` (`sent_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
@@ -0,0 +1,25 @@
+-- Fills ledger, every fill linked to the trade it contributed to
+CREATE TABLE `fills_dex` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `fill_id` varchar(255) NOT NULL,
+  `trade_id` varchar(255) NOT NULL,
+  `user` int NOT NULL,
+  `trader_address` varchar(255) NOT NULL,
+  `subaccount` int NOT NULL DEFAULT '0',
+  `token` varchar(50) NOT NULL,
+  `order_id` varchar(255) DEFAULT NULL,
+  `side` varchar(10) NOT NULL COMMENT 'BUY or SELL',
+  `size` varchar(50) NOT NULL,
+  `price` varchar(50) NOT NULL,
+  `fee` varchar(50) DEFAULT '0',
+  `liquidity` varchar(10) NOT NULL COMMENT 'MAKER or TAKER',
+  `fill_type` varchar(50) NOT NULL COMMENT 'LIMIT, LIQUIDATED, LIQUIDATION, DELEVERAGED, OFFSETTING...',
+  `block_height` bigint NOT NULL,
+  `created_at` datetime NOT NULL,
+  `timestamp` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `fill_id` (`fill_id`),
+  KEY `trade_id` (`trade_id`),
+  KEY `user` (`user`),
+  CONSTRAINT `fills_dex_ibfk_1` FOREIGN KEY (`user`) REFERENCES `users` (`id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
@@ -0,0 +1,10 @@
+-- PnL of the trades net of fees and funding, close reason, and unrealized PnL of the open trades
+ALTER TABLE `trades_dex`
+  ADD `gross_pnl` varchar(50) DEFAULT '0' COMMENT 'size x (exit - entry) of the closed part' AFTER `realised_pnl`,
+  ADD `fees` varchar(50) DEFAULT '0' COMMENT 'trading fees paid, negative for rebates' AFTER `gross_pnl`,
+  ADD `net_pnl` varchar(50) DEFAULT '0' COMMENT 'gross_pnl + funding - fees' AFTER `fees`,
+  ADD `close_reason` varchar(20) DEFAULT NULL COMMENT 'manual, liquidated, deleveraged or flipped' AFTER `is_profitable`,
+  ADD `mark_price` varchar(50) DEFAULT NULL COMMENT 'market price of the last unrealized PnL refresh' AFTER `close_reason`,
+  ADD `unrealized_pnl` varchar(50) DEFAULT '0' AFTER `mark_price`,
+  ADD `notional` varchar(50) DEFAULT '0' COMMENT 'abs(size) x mark_price' AFTER `unrealized_pnl`,
+  ADD `roi` varchar(50) DEFAULT '0' COMMENT 'unrealized_pnl / entry notional' AFTER `notional`;
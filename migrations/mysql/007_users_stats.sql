@@ -0,0 +1,22 @@
+-- Performance aggregates per user, overall (token = 'ALL') and per token
+CREATE TABLE `users_stats` (
+  `user` int NOT NULL,
+  `token` varchar(50) NOT NULL COMMENT 'ALL for every token',
+  `trades` int NOT NULL DEFAULT '0',
+  `wins` int NOT NULL DEFAULT '0',
+  `losses` int NOT NULL DEFAULT '0',
+  `win_rate` varchar(50) DEFAULT '0' COMMENT 'wins / trades',
+  `total_pnl` varchar(50) DEFAULT '0',
+  `avg_pnl` varchar(50) DEFAULT '0',
+  `gross_profit` varchar(50) DEFAULT '0',
+  `gross_loss` varchar(50) DEFAULT '0',
+  `profit_factor` varchar(50) DEFAULT NULL COMMENT 'gross_profit / gross_loss, NULL without losses',
+  `avg_hold_time` int DEFAULT '0' COMMENT 'in seconds',
+  `largest_win` varchar(50) DEFAULT '0',
+  `largest_loss` varchar(50) DEFAULT '0',
+  `max_drawdown` varchar(50) DEFAULT '0' COMMENT 'largest drop of the cumulative PnL from its peak',
+  `sharpe_ratio` varchar(50) DEFAULT '0' COMMENT 'mean PnL per trade / its standard deviation',
+  `timestamp` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`user`, `token`),
+  CONSTRAINT `users_stats_ibfk_1` FOREIGN KEY (`user`) REFERENCES `users` (`id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
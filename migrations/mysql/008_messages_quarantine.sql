@@ -0,0 +1,10 @@
+-- Messages of the indexer that failed validation, kept for inspection instead of being processed
+CREATE TABLE `messages_quarantine` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `source` varchar(255) NOT NULL COMMENT 'address/subaccount, or socket',
+  `reason` varchar(255) NOT NULL,
+  `payload` mediumtext NOT NULL,
+  `received_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `source` (`source`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
@@ -0,0 +1,19 @@
+-- Instances of the tracker, registered with their heartbeat
+CREATE TABLE `tracker_instances` (
+  `instance_id` varchar(255) NOT NULL,
+  `server_group` varchar(255) DEFAULT NULL,
+  `hostname` varchar(255) DEFAULT NULL,
+  `started_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `heartbeat_at` datetime NOT NULL,
+  PRIMARY KEY (`instance_id`),
+  KEY `server_group` (`server_group`, `heartbeat_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- Leases of the trader subaccounts, held by the instance subscribed to them
+CREATE TABLE `trader_leases` (
+  `subaccount_id` varchar(255) NOT NULL COMMENT 'address/subaccount',
+  `instance_id` varchar(255) NOT NULL,
+  `expires_at` datetime NOT NULL,
+  PRIMARY KEY (`subaccount_id`),
+  KEY `instance_id` (`instance_id`, `expires_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
@@ -0,0 +1,6 @@
+-- Running aggregates the stats are derived from, so they are updated from each closing trade
+-- without reading the previous ones again. NULL until the stats of the user are recomputed
+ALTER TABLE `users_stats`
+  ADD `peak_pnl` varchar(50) DEFAULT NULL COMMENT 'highest cumulative PnL' AFTER `sharpe_ratio`,
+  ADD `sum_squares` varchar(50) DEFAULT NULL COMMENT 'sum of the squared PnL per trade' AFTER `peak_pnl`,
+  ADD `total_hold_time` bigint DEFAULT NULL COMMENT 'in seconds' AFTER `sum_squares`;
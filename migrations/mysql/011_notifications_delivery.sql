@@ -0,0 +1,5 @@
+-- Notifications record the sinks they were delivered to, so only the failed ones are retried,
+-- and are dead-lettered after too many attempts instead of blocking the outbox
+ALTER TABLE `notifications_outbox`
+  ADD `sent_sinks` varchar(255) DEFAULT NULL COMMENT 'sinks delivered, comma-separated' AFTER `attempts`,
+  ADD `failed_at` datetime DEFAULT NULL COMMENT 'dead-lettered' AFTER `sent_at`;
@@ -0,0 +1,14 @@
+-- Wallets are followed on a list of subaccounts, and trades record the subaccount they are on
+ALTER TABLE users_wallets
+  ADD COLUMN subaccounts varchar(255) DEFAULT '0'; -- comma separated subaccount numbers, or all
+
+ALTER TABLE trades_dex
+  ADD COLUMN subaccount integer NOT NULL DEFAULT 0; -- 0-127=cross margin, 128+=isolated margin
+
+-- Last block height processed per subaccount, used to backfill gaps
+CREATE TABLE subaccounts_sync (
+  subaccount_id varchar(255) PRIMARY KEY, -- address/subaccount
+  last_height bigint NOT NULL,
+  resync_from bigint DEFAULT NULL, -- block height to backfill from on the next subscription, requested by the admin CLI
+  updated_at timestamp DEFAULT LOCALTIMESTAMP
+);
@@ -0,0 +1,22 @@
+-- Fills ledger, every fill linked to the trade it contributed to
+CREATE TABLE fills_dex (
+  id SERIAL PRIMARY KEY,
+  fill_id varchar(255) NOT NULL UNIQUE,
+  trade_id varchar(255) NOT NULL,
+  "user" integer NOT NULL REFERENCES users (id),
+  trader_address varchar(255) NOT NULL,
+  subaccount integer NOT NULL DEFAULT 0,
+  token varchar(50) NOT NULL,
+  order_id varchar(255) DEFAULT NULL,
+  side varchar(10) NOT NULL, -- BUY or SELL
+  size varchar(50) NOT NULL,
+  price varchar(50) NOT NULL,
+  fee varchar(50) DEFAULT '0',
+  liquidity varchar(10) NOT NULL, -- MAKER or TAKER
+  fill_type varchar(50) NOT NULL, -- LIMIT, LIQUIDATED, LIQUIDATION, DELEVERAGED, OFFSETTING...
+  block_height bigint NOT NULL,
+  created_at timestamp NOT NULL,
+  timestamp timestamp DEFAULT LOCALTIMESTAMP
+);
+CREATE INDEX fills_dex_trade_id ON fills_dex (trade_id);
+CREATE INDEX fills_dex_user ON fills_dex ("user");
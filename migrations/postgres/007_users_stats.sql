@@ -0,0 +1,21 @@
+-- Performance aggregates per user, overall (token = 'ALL') and per token
+CREATE TABLE users_stats (
+  "user" integer NOT NULL REFERENCES users (id),
+  token varchar(50) NOT NULL, -- ALL for every token
+  trades integer NOT NULL DEFAULT 0,
+  wins integer NOT NULL DEFAULT 0,
+  losses integer NOT NULL DEFAULT 0,
+  win_rate varchar(50) DEFAULT '0', -- wins / trades
+  total_pnl varchar(50) DEFAULT '0',
+  avg_pnl varchar(50) DEFAULT '0',
+  gross_profit varchar(50) DEFAULT '0',
+  gross_loss varchar(50) DEFAULT '0',
+  profit_factor varchar(50) DEFAULT NULL, -- gross_profit / gross_loss, NULL without losses
+  avg_hold_time integer DEFAULT 0, -- in seconds
+  largest_win varchar(50) DEFAULT '0',
+  largest_loss varchar(50) DEFAULT '0',
+  max_drawdown varchar(50) DEFAULT '0', -- largest drop of the cumulative PnL from its peak
+  sharpe_ratio varchar(50) DEFAULT '0', -- mean PnL per trade / its standard deviation
+  timestamp timestamp DEFAULT LOCALTIMESTAMP,
+  PRIMARY KEY ("user", token)
+);
@@ -0,0 +1,6 @@
+-- Running aggregates the stats are derived from, so they are updated from each closing trade
+-- without reading the previous ones again. NULL until the stats of the user are recomputed
+ALTER TABLE users_stats
+  ADD COLUMN peak_pnl varchar(50) DEFAULT NULL, -- highest cumulative PnL
+  ADD COLUMN sum_squares varchar(50) DEFAULT NULL, -- sum of the squared PnL per trade
+  ADD COLUMN total_hold_time bigint DEFAULT NULL; -- in seconds
@@ -0,0 +1,5 @@
+-- Notifications record the sinks they were delivered to, so only the failed ones are retried,
+-- and are dead-lettered after too many attempts instead of blocking the outbox
+ALTER TABLE notifications_outbox
+  ADD COLUMN sent_sinks varchar(255) DEFAULT NULL, -- sinks delivered, comma-separated
+  ADD COLUMN failed_at timestamp DEFAULT NULL; -- dead-lettered
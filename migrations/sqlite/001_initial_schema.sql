@@ -0,0 +1,48 @@
+-- Users table
+CREATE TABLE IF NOT EXISTS users (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  username varchar(255) NOT NULL,
+  created_at datetime DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Users wallets table
+CREATE TABLE IF NOT EXISTS users_wallets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id integer NOT NULL REFERENCES users (id),
+  address varchar(255) NOT NULL,
+  created_at datetime DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS users_wallets_user_id ON users_wallets (user_id);
+
+-- Tokens table
+CREATE TABLE IF NOT EXISTS tokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  symbol varchar(50) NOT NULL UNIQUE,
+  name varchar(255) DEFAULT NULL,
+  is_active tinyint(1) DEFAULT 1,
+  created_at datetime DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Trades table
+CREATE TABLE IF NOT EXISTS trades_dex (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  "user" integer NOT NULL REFERENCES users (id),
+  trade_id varchar(255) NOT NULL UNIQUE,
+  trader_address varchar(255) NOT NULL,
+  token varchar(50) NOT NULL REFERENCES tokens (symbol),
+  bias tinyint(1) NOT NULL, -- 1=long, 0=short
+  size varchar(50) NOT NULL,
+  sum_open varchar(50) NOT NULL,
+  sum_close varchar(50) DEFAULT NULL,
+  limit_price varchar(50) NOT NULL,
+  exit_price varchar(50) DEFAULT NULL,
+  start_date datetime NOT NULL,
+  end_date datetime DEFAULT NULL,
+  funding varchar(50) DEFAULT '0',
+  realised_pnl varchar(50) DEFAULT '0',
+  pnl varchar(50) DEFAULT '0',
+  is_profitable tinyint(1) DEFAULT 0,
+  timestamp datetime DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS trades_dex_user ON trades_dex ("user");
+CREATE INDEX IF NOT EXISTS trades_dex_token ON trades_dex (token);
@@ -0,0 +1,11 @@
+-- Wallets reference their user through the "user" column, like the other tables, and carry
+-- the trader type, server group and active flag the traders are selected by
+ALTER TABLE users_wallets RENAME COLUMN user_id TO "user";
+DROP INDEX users_wallets_user_id;
+CREATE INDEX users_wallets_user ON users_wallets ("user");
+
+ALTER TABLE users_wallets ADD COLUMN trader_type integer NOT NULL DEFAULT 3; -- 3=dYdX trader
+ALTER TABLE users_wallets ADD COLUMN server_group varchar(255) DEFAULT NULL; -- server group of the instances following the wallet
+ALTER TABLE users_wallets ADD COLUMN is_active tinyint(1) NOT NULL DEFAULT 1;
+
+CREATE INDEX users_wallets_traders ON users_wallets (trader_type, server_group, is_active);
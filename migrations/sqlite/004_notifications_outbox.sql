@@ -0,0 +1,12 @@
+-- Notifications recorded with the trades, published to RabbitMQ by the dispatcher
+CREATE TABLE notifications_outbox (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dedup_key varchar(255) NOT NULL UNIQUE,
+  queue varchar(255) NOT NULL,
+  message text NOT NULL,
+  expiration integer DEFAULT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  created_at datetime DEFAULT CURRENT_TIMESTAMP,
+  sent_at datetime DEFAULT NULL
+);
+CREATE INDEX notifications_outbox_sent_at ON notifications_outbox (sent_at);
@@ -0,0 +1,9 @@
+-- PnL of the trades net of fees and funding, close reason, and unrealized PnL of the open trades
+ALTER TABLE trades_dex ADD COLUMN gross_pnl varchar(50) DEFAULT '0'; -- size x (exit - entry) of the closed part
+ALTER TABLE trades_dex ADD COLUMN fees varchar(50) DEFAULT '0'; -- trading fees paid, negative for rebates
+ALTER TABLE trades_dex ADD COLUMN net_pnl varchar(50) DEFAULT '0'; -- gross_pnl + funding - fees
+ALTER TABLE trades_dex ADD COLUMN close_reason varchar(20) DEFAULT NULL; -- manual, liquidated, deleveraged or flipped
+ALTER TABLE trades_dex ADD COLUMN mark_price varchar(50) DEFAULT NULL; -- market price of the last unrealized PnL refresh
+ALTER TABLE trades_dex ADD COLUMN unrealized_pnl varchar(50) DEFAULT '0';
+ALTER TABLE trades_dex ADD COLUMN notional varchar(50) DEFAULT '0'; -- abs(size) x mark_price
+ALTER TABLE trades_dex ADD COLUMN roi varchar(50) DEFAULT '0'; -- unrealized_pnl / entry notional
@@ -0,0 +1,9 @@
+-- Messages of the indexer that failed validation, kept for inspection instead of being processed
+CREATE TABLE messages_quarantine (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source varchar(255) NOT NULL, -- address/subaccount, or socket
+  reason varchar(255) NOT NULL,
+  payload text NOT NULL,
+  received_at datetime DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX messages_quarantine_source ON messages_quarantine (source);
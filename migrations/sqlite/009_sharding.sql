@@ -0,0 +1,17 @@
+-- Instances of the tracker, registered with their heartbeat
+CREATE TABLE tracker_instances (
+  instance_id varchar(255) PRIMARY KEY,
+  server_group varchar(255) DEFAULT NULL,
+  hostname varchar(255) DEFAULT NULL,
+  started_at datetime DEFAULT CURRENT_TIMESTAMP,
+  heartbeat_at datetime NOT NULL
+);
+CREATE INDEX tracker_instances_server_group ON tracker_instances (server_group, heartbeat_at);
+
+-- Leases of the trader subaccounts, held by the instance subscribed to them
+CREATE TABLE trader_leases (
+  subaccount_id varchar(255) PRIMARY KEY, -- address/subaccount
+  instance_id varchar(255) NOT NULL,
+  expires_at datetime NOT NULL
+);
+CREATE INDEX trader_leases_instance_id ON trader_leases (instance_id, expires_at);
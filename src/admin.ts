@@ -0,0 +1,245 @@
+import { SERVER_GROUP } from "./constants";
+import { DEFAULT_SUBACCOUNT, DYDX_TRADER_TYPE } from "./constants/dydx";
+import { WalletSettingsInterface } from "./constants/interfaces";
+import {
+  addUser,
+  addWallet,
+  setTokenActive,
+  setUserActive,
+  updateWallet,
+} from "./utils/admin";
+import { requestResync } from "./utils/backfill";
+import { getOpenTrades } from "./utils/trading";
+import { validateAddress } from "./utils/validation";
+
+const USAGE = `Usage: npm run admin -- <command> [arguments] [options]
+
+Commands:
+  user:add <username>                 Add a user and print its id
+  user:activate <user>                Activate every wallet of a user
+  user:deactivate <user>              Deactivate every wallet of a user
+  wallet:add <user> <address>         Add an active wallet to a user
+  wallet:set <address>                Change the settings of a wallet
+  wallet:activate <address>           Activate a wallet
+  wallet:deactivate <address>         Deactivate a wallet
+  token:activate <symbol>             Track a token (e.g. BTC-USD), adding it if needed
+  token:deactivate <symbol>           Stop tracking a token
+  positions [address]                 List the open positions stored in the database
+  resync <address>                    Backfill a trader again from a block height
+
+Options:
+  --subaccounts=<0,1|all>             Subaccounts followed by the wallet (default: 0)
+  --trader-type=<type>                Trader type of the wallet (default: ${DYDX_TRADER_TYPE})
+  --server-group=<group>              Server group of the wallet (default: SERVER_GROUP)
+  --name=<name>                       Name of an added token
+  --user=<id>, --token=<symbol>       Filters of the positions
+  --subaccount=<number>               Subaccount to resync (default: ${DEFAULT_SUBACCOUNT})
+  --from=<height>                     Block height to resync from (default: 0)`;
+
+/**
+ * Error of the arguments of a command, printed along with the usage.
+ */
+class UsageError extends Error {}
+
+/**
+ * Parses the `--name=value` options of the command line.
+ * @param {string[]} args - The arguments of the command.
+ * @returns {Object} - The positional arguments and the options, keyed by name.
+ */
+function parseArgs(args: string[]) {
+  const options: { [name: string]: string } = {};
+  const positional: string[] = [];
+  for (const arg of args) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) options[match[1]] = match[2];
+    else positional.push(arg);
+  }
+  return { command: positional[0], args: positional.slice(1), options };
+}
+
+/**
+ * Parses an integer argument.
+ * @param {string | undefined} value - The argument.
+ * @param {string} name - The name of the argument, for the error.
+ * @returns {number} - The integer.
+ */
+function parseInteger(value: string | undefined, name: string): number {
+  if (value === undefined || !/^\d+$/.test(value))
+    throw new UsageError(`Invalid ${name}: ${value ?? "missing"}`);
+  return parseInt(value, 10);
+}
+
+/**
+ * Validates an address argument as a dYdX address.
+ * @param {string | undefined} address - The argument.
+ * @returns {string} - The address.
+ */
+function parseAddress(address: string | undefined): string {
+  const reason = validateAddress(address);
+  if (reason) throw new UsageError(`Invalid address: ${reason}`);
+  return address as string;
+}
+
+/**
+ * Normalizes a token argument to the symbols of the tokens table (BTC-USD -> BTCUSD).
+ * @param {string | undefined} symbol - The argument.
+ * @returns {string} - The symbol.
+ */
+function parseSymbol(symbol: string | undefined): string {
+  if (!symbol) throw new UsageError("Missing symbol");
+  return symbol.toUpperCase().replace(/-/g, "");
+}
+
+/**
+ * Gets the wallet settings given as options.
+ * @param {Object} options - The options of the command.
+ * @returns {Partial<WalletSettingsInterface>} - The settings given.
+ */
+function parseWalletSettings(options: {
+  [name: string]: string;
+}): Partial<WalletSettingsInterface> {
+  const subaccounts = options.subaccounts?.trim().toLowerCase();
+  if (subaccounts !== undefined && !/^(all|\d+(,\d+)*)$/.test(subaccounts))
+    throw new UsageError(`Invalid subaccounts: ${options.subaccounts}`);
+  return {
+    subaccounts,
+    trader_type:
+      options["trader-type"] === undefined
+        ? undefined
+        : parseInteger(options["trader-type"], "trader type"),
+    server_group: options["server-group"],
+  };
+}
+
+/**
+ * Runs a command of the admin CLI.
+ * @param {string} command - The command.
+ * @param {string[]} args - The positional arguments of the command.
+ * @param {Object} options - The options of the command.
+ */
+async function run(
+  command: string,
+  args: string[],
+  options: { [name: string]: string }
+) {
+  switch (command) {
+    case "user:add": {
+      if (!args[0]) throw new UsageError("Missing username");
+      const user = await addUser(args[0]);
+      console.log(`Added user ${args[0]} with id ${user}`);
+      return;
+    }
+    case "user:activate":
+    case "user:deactivate": {
+      const active = command === "user:activate";
+      const user = parseInteger(args[0], "user");
+      const count = await setUserActive(user, active);
+      console.log(
+        `${
+          active ? "Activated" : "Deactivated"
+        } ${count} wallets of user ${user}`
+      );
+      return;
+    }
+    case "wallet:add": {
+      const user = parseInteger(args[0], "user");
+      const address = parseAddress(args[1]);
+      const settings = parseWalletSettings(options);
+      await addWallet(user, address, {
+        subaccounts: settings.subaccounts ?? `${DEFAULT_SUBACCOUNT}`,
+        trader_type: settings.trader_type ?? DYDX_TRADER_TYPE,
+        server_group: settings.server_group ?? SERVER_GROUP ?? null,
+      });
+      console.log(`Added wallet ${address} to user ${user}`);
+      return;
+    }
+    case "wallet:set": {
+      const address = parseAddress(args[0]);
+      const count = await updateWallet(address, parseWalletSettings(options));
+      console.log(`Updated ${count} wallets ${address}`);
+      return;
+    }
+    case "wallet:activate":
+    case "wallet:deactivate": {
+      const active = command === "wallet:activate";
+      const address = parseAddress(args[0]);
+      const count = await updateWallet(address, { is_active: active ? 1 : 0 });
+      console.log(
+        `${active ? "Activated" : "Deactivated"} ${count} wallets ${address}`
+      );
+      return;
+    }
+    case "token:activate":
+    case "token:deactivate": {
+      const active = command === "token:activate";
+      const symbol = parseSymbol(args[0]);
+      const count = await setTokenActive(symbol, active, options.name);
+      if (count === 0) console.log(`Token ${symbol} not found`);
+      else console.log(`${active ? "Activated" : "Deactivated"} ${symbol}`);
+      return;
+    }
+    case "positions": {
+      const trades = await getOpenTrades({
+        address: args[0] === undefined ? undefined : parseAddress(args[0]),
+        user:
+          options.user === undefined
+            ? undefined
+            : parseInteger(options.user, "user"),
+        token:
+          options.token === undefined ? undefined : parseSymbol(options.token),
+      });
+      console.table(
+        trades.map((trade) => ({
+          user: trade.user,
+          trader: `${trade.trader_address}/${trade.subaccount}`,
+          token: trade.token,
+          side: trade.bias ? "LONG" : "SHORT",
+          size: trade.size,
+          entry_price: trade.limit_price,
+          net_pnl: trade.net_pnl,
+          opened_at: trade.start_date,
+        }))
+      );
+      return;
+    }
+    case "resync": {
+      const address = parseAddress(args[0]);
+      const subaccount =
+        options.subaccount === undefined
+          ? DEFAULT_SUBACCOUNT
+          : parseInteger(options.subaccount, "subaccount");
+      const height =
+        options.from === undefined ? 0 : parseInteger(options.from, "height");
+      await requestResync(`${address}/${subaccount}`, height);
+      console.log(
+        `Requested the resync of ${address}/${subaccount} from block ${height}, applied by its tracker within a heartbeat`
+      );
+      return;
+    }
+    default:
+      throw new UsageError(
+        command ? `Unknown command: ${command}` : "Missing command"
+      );
+  }
+}
+
+/**
+ * Manages the tracked users, wallets and tokens, lists the open positions and requests
+ * the resync of a trader, from the command line.
+ */
+const admin = async () => {
+  const { command, args, options } = parseArgs(process.argv.slice(2));
+  try {
+    await run(command, args, options);
+    process.exit(0);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+    } else {
+      console.error("Error running admin command:", error);
+    }
+    process.exit(1);
+  }
+};
+
+admin();
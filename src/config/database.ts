@@ -1,33 +1,56 @@
-import mysql from "mysql2/promise";
 import dotenv from "dotenv";
+import { DB_CLIENT, SQLITE_FILE } from "../constants";
+import {
+  DatabaseConfigInterface,
+  StorageDriverInterface,
+} from "../constants/interfaces";
+import { createMysqlDriver } from "../storage/mysql";
+import { createPostgresDriver } from "../storage/postgres";
+import { createSqliteDriver } from "../storage/sqlite";
 dotenv.config();
 
-// Function to create and return a MySQL database connection pool
-const pool = mysql.createPool({
+// Connection settings of the MySQL and PostgreSQL servers
+const config: DatabaseConfigInterface = {
   host: process.env.SQL_HOST,
   user: process.env.SQL_USER,
   password: process.env.SQL_PASSWORD,
   database: process.env.SQL_DB_NAME,
-  port: parseInt(process.env.SQL_PORT as any, 10),
-  connectionLimit: 10,
-  charset: "utf8mb4",
-});
+  port: process.env.SQL_PORT ? parseInt(process.env.SQL_PORT, 10) : undefined,
+};
+
+let driver: StorageDriverInterface | null = null;
 
-let activeConnections = 0;
-pool.on("acquire", function (connection) {
-  activeConnections++;
-  console.log(
-    `Connection ${connection.threadId} acquired. Total active: ${activeConnections}`
-  );
-});
+// Function to create, on first use, and return the storage client selected by DB_CLIENT
+export const connectDatabase = (): StorageDriverInterface => {
+  if (driver) return driver;
+  switch (DB_CLIENT) {
+    case "mysql":
+      driver = createMysqlDriver(config);
+      break;
+    case "postgres":
+      driver = createPostgresDriver(config);
+      break;
+    case "sqlite":
+      driver = createSqliteDriver(SQLITE_FILE);
+      break;
+    default:
+      throw new Error(
+        `Unknown DB_CLIENT ${DB_CLIENT}, expected mysql, postgres or sqlite`
+      );
+  }
+  console.log(`Using the ${DB_CLIENT} storage`);
+  return driver;
+};
 
-pool.on("release", function (connection) {
-  activeConnections--;
-  console.log(
-    `Connection ${connection.threadId} released. Total active: ${activeConnections}`
-  );
-});
+// Function to return the number of connections of the pool in use
+export const getActiveConnections = (): number => {
+  return driver ? driver.getActiveConnections() : 0;
+};
 
-export const connectDatabase = (): mysql.Pool => {
-  return pool;
+// Function to close the connections of the storage client, if it was ever used
+export const closeDatabase = async () => {
+  if (!driver) return;
+  const closing = driver;
+  driver = null;
+  await closing.close();
 };
@@ -0,0 +1,13 @@
+import axios, { AxiosInstance } from "axios";
+import dotenv from "dotenv";
+dotenv.config();
+
+// HTTP client for the dYdX indexer REST API
+const client = axios.create({
+  baseURL: process.env.DYDX_INDEXER_URI || "https://indexer.dydx.trade/v4",
+  timeout: 10000,
+});
+
+export const connectIndexer = (): AxiosInstance => {
+  return client;
+};
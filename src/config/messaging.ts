@@ -1,4 +1,9 @@
-import amqp, { Channel, Connection, ConsumeMessage, Options } from "amqplib";
+import amqp, {
+  ConfirmChannel,
+  Connection,
+  ConsumeMessage,
+  Options,
+} from "amqplib";
 import dotenv from "dotenv";
 dotenv.config();
 
@@ -11,7 +16,7 @@ class RabbitMQClient {
   private url: string;
   private sslOptions: Options.Connect | null = null;
   private connection: Connection | null = null;
-  private channel: Channel | null = null;
+  private channel: ConfirmChannel | null = null;
 
   /**
    * Initializes the RabbitMQ client. The RabbitMQ URL is read from environment variables,
@@ -57,8 +62,18 @@ class RabbitMQClient {
     try {
       // Establish a connection to the RabbitMQ server
       this.connection = await amqp.connect(this.url, this.sslOptions);
-      // Create a channel on the established connection
-      this.channel = await this.connection.createChannel();
+      // Create a channel on the established connection, in confirm mode so every message
+      // published is acknowledged by the broker
+      this.channel = await this.connection.createConfirmChannel();
+      // Forget the connection once closed, so the next call reconnects
+      this.connection.on("close", () => {
+        console.log("RabbitMQ connection closed");
+        this.connection = null;
+        this.channel = null;
+      });
+      this.connection.on("error", (error) => {
+        console.error("RabbitMQ connection error:", error);
+      });
       console.log("Connected to RabbitMQ");
     } catch (error) {
       // Log any connection errors and rethrow them
@@ -67,6 +82,30 @@ class RabbitMQClient {
     }
   }
 
+  /**
+   * Tells whether the client holds an open connection and channel.
+   * @returns True if messages can be published without connecting first.
+   */
+  public isConnected(): boolean {
+    return this.channel !== null;
+  }
+
+  /**
+   * Closes the connection to RabbitMQ, along with its channel. The next call to connect()
+   * opens a new one.
+   */
+  public async close(): Promise<void> {
+    if (!this.connection) return;
+    const connection = this.connection;
+    this.connection = null;
+    this.channel = null;
+    try {
+      await connection.close();
+    } catch (error) {
+      console.error("Failed to close RabbitMQ connection:", error);
+    }
+  }
+
   /**
    * Publishes a message to a specified queue. This method takes the name of the queue
    * and the content of the message as parameters, allowing messages to be sent to
@@ -75,24 +114,38 @@ class RabbitMQClient {
    * @param queueName The name of the queue to which the message will be published.
    * @param messageContent The content of the message to be published.
    * @param expiration The expiration time for the message.
-   * @returns A promise that resolves to a boolean indicating whether the message was
-   *          successfully queued.
+   * @param messageId Optional. An id for the message, allowing consumers to de-duplicate it.
+   * @returns A promise that resolves to a boolean indicating whether the broker confirmed
+   *          the message, i.e. took responsibility for it.
    */
   public async publishMessage(
     queueName: string,
     messageContent: string,
-    expiration?: string
+    expiration?: string,
+    messageId?: string
   ): Promise<boolean> {
     if (!this.channel) {
       throw new Error("Channel not initialized. Call connect() first.");
     }
 
     try {
-      await this.channel.assertQueue(queueName, { durable: true });
-      return this.channel.sendToQueue(queueName, Buffer.from(messageContent), {
-        persistent: true,
-        ...(expiration && { expiration }),
-      });
+      const channel = this.channel;
+      await channel.assertQueue(queueName, { durable: true });
+      // The return value of sendToQueue only tells whether the write buffer is full, the
+      // message is published once the broker acknowledges it
+      await new Promise<void>((resolve, reject) =>
+        channel.sendToQueue(
+          queueName,
+          Buffer.from(messageContent),
+          {
+            persistent: true,
+            ...(expiration && { expiration }),
+            ...(messageId && { messageId }),
+          },
+          (error) => (error ? reject(error) : resolve())
+        )
+      );
+      return true;
     } catch (error) {
       console.error("Failed to publish message:", error);
       return false;
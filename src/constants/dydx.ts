@@ -1,10 +1,31 @@
 // Types of messages
 export const SUBSCRIPTION_TYPE = "subscribed";
 export const DATA_TYPE = "channel_data";
+export const BATCH_DATA_TYPE = "channel_batch_data";
+export const ERROR_TYPE = "error";
 
 // Types of statuses
 export const OPEN_STATUS = "OPEN";
 export const CLOSED_STATUS = "CLOSED";
 
+// Sides of the positions and fills
+export const POSITION_SIDES = ["LONG", "SHORT"];
+export const FILL_SIDES = ["BUY", "SELL"];
+
+// Types of fills closing a position on behalf of the trader
+export const LIQUIDATED_FILL_TYPE = "LIQUIDATED";
+export const DELEVERAGED_FILL_TYPE = "DELEVERAGED";
+
 // Ping interval
 export const PING_INTERVAL = 31000;
+
+// Addresses, bech32 encoded with the dydx prefix (dydx1...)
+export const ADDRESS_PREFIX = "dydx";
+export const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+
+// Type of the wallets of dYdX traders in users_wallets
+export const DYDX_TRADER_TYPE = 3;
+
+// Subaccounts
+export const DEFAULT_SUBACCOUNT = 0;
+export const ALL_SUBACCOUNTS = "all"; // Follow every subaccount discovered on the indexer
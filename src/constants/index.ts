@@ -1,22 +1,117 @@
 import dotenv from "dotenv";
+import os from "os";
 dotenv.config();
 
 export const DYDX_WEBSOCKET_URI = process.env.DYDX_WEBSOCKET_URI as string;
 export const DYDX_SUBACCOUNTS_CHANNEL = process.env
   .DYDX_SUBACCOUNTS_CHANNEL as string;
+export const DYDX_MARKETS_CHANNEL =
+  process.env.DYDX_MARKETS_CHANNEL || "v4_markets";
 export const SERVER_GROUP = process.env.SERVER_GROUP;
 
+// Sharding of the traders between the instances of a server group
+export const INSTANCE_ID =
+  process.env.INSTANCE_ID || `${os.hostname()}-${process.pid}`; // Unique per running instance
+export const HEARTBEAT_INTERVAL = 10000; // Heartbeat and rebalancing of the leases interval
+export const LEASE_DURATION = 30; // Seconds a lease lasts without heartbeat, before its traders are taken over
+
+// WebSocket pool
+export const WS_POOL_SIZE = parseInt(process.env.DYDX_WS_POOL_SIZE || "5", 10); // Max number of sockets opened
+export const WS_MAX_SUBSCRIPTIONS = parseInt(
+  process.env.DYDX_WS_MAX_SUBSCRIPTIONS || "200",
+  10
+); // Max number of traders subscribed per socket
+
 // Refreshing jobs
 export const RECONNECT_INTERVAL = 1000;
 export const REFRESH_INTERVAL = 600000; // Refresh interval of cached trading pairs
 export const UDPATE_INTERVAL = 10; // Process all positions interval (in seconds)
 export const TRADER_REFRESH_INTERVAL = 300000; // Refresh interval of cached trading pairs
+export const DISPATCH_INTERVAL = 5; // Publish pending notifications interval (in seconds)
+export const UNREALIZED_INTERVAL = 30; // Refresh unrealized PnL of open positions interval (in seconds)
+export const STATS_INTERVAL = 1; // Full recompute of users stats interval (in hours)
+
+// HTTP API
+export const API_PORT = parseInt(process.env.API_PORT || "3000", 10);
+export const HEALTH_MAX_FLUSH_AGE = 60; // Max seconds without writing the buffered rows before being degraded
+
+// Write pipeline
+export const JOURNAL_DIR = process.env.JOURNAL_DIR || "./data"; // Directory of the on-disk journals
+export const WRITE_BATCH_SIZE = 500; // Max rows per insert, a full batch is flushed right away
+export const WRITE_RETRY_DELAY = 1000; // Initial delay before retrying a failed batch
+export const WRITE_MAX_RETRY_DELAY = 60000; // Max delay between retries of a failed batch
+export const SHUTDOWN_TIMEOUT = parseInt(
+  process.env.SHUTDOWN_TIMEOUT || "30000",
+  10
+); // Max time to write the pending rows and close the connections on shutdown (in ms)
+export const QUARANTINE_FILE = `${JOURNAL_DIR}/quarantine.jsonl`; // Messages failing validation while the database is unavailable
+
+// Storage
+export const DB_CLIENT = process.env.DB_CLIENT || "mysql"; // mysql, postgres or sqlite
+export const SQLITE_FILE =
+  process.env.SQLITE_FILE || `${JOURNAL_DIR}/tracker.db`; // Database file of the sqlite client
+export const DB_MAX_RETRIES = 5; // Max attempts of a transaction failing on a deadlock
+export const DB_RETRY_DELAY = 1000; // Initial delay before retrying a transaction failing on a deadlock
+export const MIGRATIONS_DIR = process.env.MIGRATIONS_DIR || "./migrations"; // One directory of numbered SQL files per client
+export const AUTO_MIGRATE = process.env.AUTO_MIGRATE !== "false"; // Apply the pending migrations at startup
+
+// Recording of the raw WebSocket messages
+export const RECORD_MESSAGES = process.env.RECORD_MESSAGES === "true";
+export const RECORDINGS_DIR =
+  process.env.RECORDINGS_DIR || `${JOURNAL_DIR}/recordings`; // One JSONL file per trader subaccount
+
+// Notification sinks
+export const NOTIFICATION_ROUTES =
+  process.env.NOTIFICATION_ROUTES || "*=rabbitmq"; // <queue>[:<event>]=<sink>,<sink>;...
+export const WEBHOOK_URL = process.env.WEBHOOK_URL;
+export const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET; // Signs the webhook requests with HMAC-SHA256
+export const CHAT_WEBHOOK_URL = process.env.CHAT_WEBHOOK_URL;
+export const NOTIFICATIONS_FILE =
+  process.env.NOTIFICATIONS_FILE || `${JOURNAL_DIR}/notifications.jsonl`;
+export const WEBHOOK_MAX_RETRIES = 3; // Max attempts of a webhook request
+export const WEBHOOK_RETRY_DELAY = 500; // Initial delay before retrying a webhook request
+export const WEBHOOK_TIMEOUT = 10000; // Timeout of a webhook request
+export const NOTIFICATION_MAX_ATTEMPTS = 50; // Dispatches of a notification before it is dead-lettered
+
+// Alerts
+export const ALERT_RULES_FILE = process.env.ALERT_RULES_FILE || "./alerts.json";
+
+// Copy trading
+export const COPY_TRADING_FILE =
+  process.env.COPY_TRADING_FILE || "./copy_trading.json";
+export const TRADER_EQUITY_TTL = 60000; // Cache duration of the equity of the traders
+export const ORDER_SIZE_DECIMALS = 8; // Decimals of the sizes of the order intents
+
+// Mock indexer
+export const MOCK_INDEXER_PORT = parseInt(
+  process.env.MOCK_INDEXER_PORT || "8090",
+  10
+);
+export const MOCK_STEP_DELAY = 50; // Delay between the messages of a scenario (in milliseconds)
+export const MOCK_EQUITY = "10000"; // Equity of every mocked subaccount
 
 // Page sizes
 export const PAGE_SIZE_TRADES = 100; // For transversing trades
+export const BACKFILL_MAX_PAGES = 10; // Max pages fetched from the indexer per backfill
+export const PAGE_SIZE_NOTIFICATIONS = 100; // Max notifications published per dispatch
+export const PAGE_SIZE_API = 50; // Default trades per page of the API
+export const MAX_PAGE_SIZE_API = 500; // Max trades per page of the API
 
 // Precision
 export const AMOUNT_DECIMALS = 6;
 export const PRICE_DECIMALS = 18;
 
+// Token of the users stats aggregating every token
+export const STATS_ALL_TOKENS = "ALL";
+
+// Close reasons of a trade
+export const CLOSE_REASON_MANUAL = "manual";
+export const CLOSE_REASON_LIQUIDATED = "liquidated";
+export const CLOSE_REASON_DELEVERAGED = "deleveraged";
+export const CLOSE_REASON_FLIPPED = "flipped";
+export const CLOSE_REASON_UNRESOLVED = "unresolved"; // Closed while disconnected, without close in the indexer history
+
+// Version of the payload of the trade events
+export const TRADE_EVENT_VERSION = 2;
+
 export const DUMMY_DATE = "2024-03-31 09:08:12";
@@ -5,6 +5,7 @@ export interface TradeInterface {
   user: number;
   trade_id: string | any;
   trader_address: string | any;
+  subaccount: number;
   token: string | any;
   bias: number;
   size: string;
@@ -16,6 +17,406 @@ export interface TradeInterface {
   end_date: string | any;
   funding: string;
   realised_pnl: string;
+  gross_pnl: string;
+  fees: string;
+  net_pnl: string;
   pnl: string;
   is_profitable: number;
+  close_reason: string | null;
+  mark_price?: string;
+  unrealized_pnl?: string;
+  notional?: string;
+  roi?: string;
+}
+
+/**
+ * Structure for a DEX fill
+ */
+export interface FillInterface {
+  fill_id: string;
+  trade_id: string;
+  user: number;
+  trader_address: string;
+  subaccount: number;
+  token: string;
+  order_id: string | null;
+  side: string;
+  size: string;
+  price: string;
+  fee: string;
+  liquidity: string;
+  fill_type: string;
+  block_height: number;
+  created_at: string;
+}
+
+/**
+ * Structure for a subscribed trader subaccount
+ */
+export interface TraderInterface {
+  id: string;
+  user: number;
+  address: string;
+  subaccount: number;
+  last_height: number | null;
+  open_positions: number;
+}
+
+/**
+ * Filters of the closed trades
+ */
+export interface TradeFiltersInterface {
+  user?: number;
+  address?: string;
+  token?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Structure for a page of results
+ */
+export interface PageInterface<T> {
+  data: T[];
+  page: number;
+  limit: number;
+  total: number;
+}
+
+/**
+ * State of a trader subscribed on a pooled connection
+ */
+export interface TraderHealthInterface {
+  id: string;
+  user: number;
+  last_height: number | null;
+  open_positions: number;
+  queue_depth: number;
+}
+
+/**
+ * State of a pooled WebSocket connection
+ */
+export interface SocketHealthInterface {
+  index: number;
+  state: string;
+  last_message_at: string | null;
+  seconds_since_last_message: number | null;
+  traders: TraderHealthInterface[];
+}
+
+/**
+ * State of the write pipeline
+ */
+export interface ProcessorHealthInterface {
+  queue_depth: number;
+  pending_rows: number;
+  last_flush_at: string | null;
+  seconds_since_last_flush: number | null;
+}
+
+/**
+ * Structure for the leases of the traders, as synced by an instance
+ */
+export interface LeasesInterface {
+  leased: Set<string>;
+  handover: string[];
+}
+
+/**
+ * Destination of the notifications
+ */
+export interface NotificationSink {
+  name: string;
+  send(
+    queueName: string,
+    messageContent: string,
+    expiration?: string,
+    messageId?: string
+  ): Promise<boolean>;
+}
+
+/**
+ * Payload of a trade event published to the notification sinks
+ */
+export interface TradeEventInterface {
+  version: number;
+  type: string;
+  event: string;
+  dedup_key: string;
+  trade_id: string;
+  trader: {
+    user: number;
+    address: string;
+    subaccount: number;
+  };
+  token: string;
+  side: string;
+  previous_size: string;
+  size: string;
+  delta: string;
+  price: string | null;
+  pnl: {
+    gross_pnl: string;
+    fees: string;
+    funding: string;
+    net_pnl: string;
+  };
+  trade: Omit<
+    TradeInterface,
+    | "user"
+    | "trader_address"
+    | "subaccount"
+    | "realised_pnl"
+    | "mark_price"
+    | "unrealized_pnl"
+    | "notional"
+    | "roi"
+  >;
+  timestamp: string;
+}
+
+/**
+ * Structure for an alert rule
+ */
+export interface AlertRuleInterface {
+  id: string;
+  description?: string;
+  condition: "notional_above" | "loss_above" | "event" | "trades_above";
+  threshold?: number;
+  window?: number;
+  cooldown?: number;
+  events?: string[];
+  tokens?: string[];
+  users?: number[];
+}
+
+/**
+ * Payload of an alert published to the notification sinks
+ */
+export interface AlertInterface {
+  version: number;
+  type: string;
+  rule: string;
+  description: string | null;
+  reason: string;
+  dedup_key: string;
+  event: TradeEventInterface;
+}
+
+/**
+ * Structure for the settings of a tracked wallet in users_wallets
+ */
+export interface WalletSettingsInterface {
+  subaccounts: string;
+  trader_type: number;
+  server_group: string | null;
+}
+
+/**
+ * Structure for a follower of the copy trading signals
+ */
+export interface FollowerInterface {
+  id: string;
+  traders?: string[];
+  users?: number[];
+  sizing: "ratio" | "equity";
+  ratio?: number;
+  equity?: number;
+  max_leverage?: number;
+  caps?: { [token: string]: number };
+}
+
+/**
+ * Payload of an order intent published to the copy trading queue
+ */
+export interface OrderIntentInterface {
+  version: number;
+  type: string;
+  intent_id: string;
+  follower: string;
+  market: string;
+  side: "BUY" | "SELL";
+  size: string;
+  reduce_only: boolean;
+  reference_price: string;
+  target_size: string;
+  source: {
+    trade_id: string;
+    event: string;
+    user: number;
+    address: string;
+    subaccount: number;
+    size: string;
+  };
+  created_at: string;
+}
+
+/**
+ * Step of a scenario played by the mock indexer
+ */
+export interface MockStepInterface {
+  type: "data" | "disconnect" | "undefined_account" | "malformed";
+  positions?: any[];
+  fills?: any[];
+  missed?: MockStepInterface[];
+  contents?: any;
+}
+
+/**
+ * Scenario played by the mock indexer to a trader subaccount
+ */
+export interface MockScenarioInterface {
+  name: string;
+  address: string;
+  subaccount: number;
+  steps: MockStepInterface[];
+}
+
+/**
+ * Perpetual position of a subaccount, as sent by the dYdX indexer
+ */
+export interface DydxPositionInterface {
+  market: string;
+  status: string;
+  side: "LONG" | "SHORT";
+  size: string;
+  maxSize?: string;
+  entryPrice: string;
+  exitPrice: string | null;
+  realizedPnl?: string;
+  unrealizedPnl?: string;
+  sumOpen: string;
+  sumClose: string;
+  netFunding: string;
+  createdAt: string;
+  createdAtHeight: string;
+  closedAt?: string | null;
+  closedAtHeight?: string | null;
+  subaccountNumber?: number;
+}
+
+/**
+ * Fill of an order of a subaccount, as sent by the dYdX indexer
+ */
+export interface DydxFillInterface {
+  id: string;
+  market?: string;
+  ticker?: string;
+  side: "BUY" | "SELL";
+  liquidity: string;
+  type: string;
+  size: string;
+  price: string;
+  fee: string;
+  orderId?: string;
+  createdAt: string;
+  createdAtHeight: string;
+}
+
+/**
+ * Fill of a position change: a fill sent by the indexer, or only the block of the change
+ * when it is synthesized (e.g. catching up with a subscription snapshot)
+ */
+export type PositionChangeFillInterface = Partial<DydxFillInterface> &
+  Pick<DydxFillInterface, "createdAt" | "createdAtHeight">;
+
+/**
+ * Snapshot of a subaccount sent when subscribing to the subaccounts channel
+ */
+export interface DydxSubscribedMessageInterface {
+  type: "subscribed";
+  id: string;
+  channel?: string;
+  contents: {
+    subaccount?: {
+      address?: string;
+      subaccountNumber?: number;
+      equity?: string;
+      openPerpetualPositions?: { [market: string]: DydxPositionInterface };
+    };
+    blockHeight?: string;
+  };
+}
+
+/**
+ * Changes of a subaccount sent on the subaccounts channel
+ */
+export interface DydxChannelDataMessageInterface {
+  type: "channel_data";
+  id: string;
+  channel?: string;
+  contents: {
+    perpetualPositions?: DydxPositionInterface[];
+    fills?: DydxFillInterface[];
+    blockHeight?: string;
+  };
+}
+
+/**
+ * Structure for the connection settings of the MySQL and PostgreSQL clients
+ */
+export interface DatabaseConfigInterface {
+  host?: string;
+  user?: string;
+  password?: string;
+  database?: string;
+  port?: number;
+}
+
+/**
+ * Structure for the result of a query: the rows selected, or the number of rows written
+ * and the id generated by an insert
+ */
+export interface QueryResultInterface {
+  rows: any[];
+  affectedRows: number;
+  insertId: number | null;
+}
+
+/**
+ * Structure for a connection running queries with `?` placeholders
+ */
+export interface SqlConnectionInterface {
+  query(sql: string, values?: any[]): Promise<QueryResultInterface>;
+}
+
+/**
+ * Structure for the SQL that differs between the storage clients
+ */
+export interface SqlDialectInterface {
+  quote(identifier: string): string;
+  datetimeType: string;
+  now: string;
+  secondsFromNow: string;
+  isoDate(column: string): string;
+  secondsBetween(from: string, to: string): string;
+  greatest(a: string, b: string): string;
+  excluded(column: string): string;
+  onConflict(keys: string[], updates: { [column: string]: string }): string;
+  returningId: string;
+}
+
+/**
+ * Structure for a storage client: its connections, SQL dialect and errors
+ */
+export interface StorageDriverInterface extends SqlConnectionInterface {
+  client: string;
+  dialect: SqlDialectInterface;
+  transaction(
+    run: (connection: SqlConnectionInterface) => Promise<void>
+  ): Promise<void>;
+  isDeadlock(error: any): boolean;
+  isPermanentError(error: any): boolean;
+  getActiveConnections(): number;
+  close(): Promise<void>;
+}
+
+/**
+ * Structure for a migration of the database schema, read from MIGRATIONS_DIR
+ */
+export interface MigrationInterface {
+  version: number;
+  name: string;
+  file: string;
 }
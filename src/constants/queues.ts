@@ -1,7 +1,11 @@
 // Queues
 export const SOCKET_QUEUE = "socket_queue";
 export const TG_TRADES_QUEUE = "tg_trades_queue";
+export const ALERTS_QUEUE = "alerts_queue";
+export const ORDER_INTENTS_QUEUE = "order_intents_queue";
 
 // Duration of messages
 export const SOCKET_DURATION = 60000;
 export const TG_NOTIFICATION_DURATION = 600000;
+export const ALERT_NOTIFICATION_DURATION = 600000;
+export const ORDER_INTENT_DURATION = 60000; // Stale order intents must not be executed
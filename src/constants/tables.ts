@@ -2,6 +2,13 @@ export const SQL_USERS = "users";
 export const SQL_USERS_WALLETS = "users_wallets";
 export const SQL_USERS_STATS = "users_stats";
 export const SQL_TRADES_DEX = "trades_dex";
+export const SQL_FILLS_DEX = "fills_dex";
+export const SQL_SUBACCOUNTS_SYNC = "subaccounts_sync";
+export const SQL_NOTIFICATIONS_OUTBOX = "notifications_outbox";
+export const SQL_MESSAGES_QUARANTINE = "messages_quarantine";
+export const SQL_TRACKER_INSTANCES = "tracker_instances";
+export const SQL_TRADER_LEASES = "trader_leases";
+export const SQL_SCHEMA_MIGRATIONS = "schema_migrations";
 
 // Markets
 export const SQL_TOKENS = "tokens";
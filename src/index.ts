@@ -1,51 +1,130 @@
-import { TRADER_REFRESH_INTERVAL } from "./constants";
-import { insertTrades } from "./services/crons";
+import { Server } from "http";
+import {
+  AUTO_MIGRATE,
+  HEARTBEAT_INTERVAL,
+  SHUTDOWN_TIMEOUT,
+  TRADER_REFRESH_INTERVAL,
+} from "./constants";
+import { closeDatabase, connectDatabase } from "./config/database";
+import RabbitMQClient from "./config/messaging";
+import {
+  dispatchOutbox,
+  insertTrades,
+  recomputeStats,
+  updateUnrealizedPnl,
+} from "./services/crons";
+import { startApi } from "./services/api";
+import { checkSchema, migrate } from "./storage/migrations";
+import { initWebSocketMarkets } from "./services/markets";
+import { drainProcessor } from "./services/processor";
 import { initWebSocketTraderMemory } from "./services/websocket";
-import { fetchAndCachePairs, startPairRefresh } from "./utils/symbols";
-import { getTraders } from "./utils/trading";
+import { getPendingResyncs } from "./utils/backfill";
+import { checkNotificationRoutes } from "./utils/messaging";
+import { handOverLeases, releaseLeases, syncLeases } from "./utils/sharding";
+import {
+  fetchAndCachePairs,
+  startPairRefresh,
+  stopPairRefresh,
+} from "./utils/symbols";
+import { getTraderSubscriptions } from "./utils/trading";
 
-let cachedTraders = new Set<string>();
+let cachedTraders: any[] = [];
 let socketSubscriptions = new Map();
+let is_connecting = false;
+let is_shutting_down = false;
+let refreshTimers: NodeJS.Timeout[] = [];
+let marketsSocket: { closeConnection: () => Promise<void> } | null = null;
+let apiServer: Server | null = null;
 
 /**
  * Function to start the periodic refresh of traders
- * subscriptions
+ * subscriptions, and the heartbeat renewing and rebalancing
+ * the leases of the traders
  */
 const startTradersRefresh = () => {
-  setInterval(async () => {
-    await connectToTraders();
-  }, TRADER_REFRESH_INTERVAL);
+  refreshTimers = [
+    setInterval(async () => {
+      await refreshTraders();
+    }, TRADER_REFRESH_INTERVAL),
+    setInterval(async () => {
+      await connectToTraders();
+    }, HEARTBEAT_INTERVAL),
+  ];
 };
 
+/**
+ * Fetches the active traders of the server group, one entry per followed subaccount,
+ * and subscribes the ones leased by this instance.
+ */
+async function refreshTraders() {
+  try {
+    cachedTraders = await getTraderSubscriptions();
+  } catch (error) {
+    console.log("Error refreshing traders", error);
+  }
+  await connectToTraders();
+}
+
 async function connectToTraders() {
+  // Skipped while the previous run is still subscribing, or once shutting down
+  if (is_connecting || is_shutting_down) return;
+  is_connecting = true;
   try {
-    // Fetch new traders
-    const traders = await getTraders();
-    const newTraders = new Set(traders.map((p) => p.address));
+    // Only the traders leased by this instance are subscribed
+    let leased: Set<string>;
+    let handover: string[];
+    try {
+      ({ leased, handover } = await syncLeases(cachedTraders));
+    } catch (error) {
+      // Subscriptions are kept as they are until the leases can be synced again
+      return;
+    }
+    const traders = cachedTraders.filter((trader) => leased.has(trader.id));
+
+    // Resubscribe traders with a requested resync, backfilling them on subscription
+    for (const trader of await getPendingResyncs()) {
+      const socket = socketSubscriptions.get(trader);
+      if (!socket) continue;
+      await socket.closeConnection();
+      socketSubscriptions.delete(trader);
+    }
 
-    // Unsubscribe traders no longer active
-    socketSubscriptions.forEach(async (_, trader) => {
-      if (!newTraders.has(trader)) {
-        let socket = socketSubscriptions.get(trader);
-        await socket.closeConnection();
+    // Unsubscribe traders no longer leased, freeing their slot on the shared socket. Like on
+    // shutdown, the messages already received are processed and the rows written before
+    // their leases are released
+    for (const [trader, socket] of socketSubscriptions) {
+      if (!leased.has(trader)) {
+        await socket.closeConnection(true);
         socketSubscriptions.delete(trader);
       }
-    });
+    }
+    try {
+      await handOverLeases(handover);
+    } catch (error) {
+      // The leases kept are handed over again on the next sync
+    }
 
-    // Subscribe new trader
-    traders.forEach(async (trader) => {
-      if (!socketSubscriptions.has(trader.address)) {
+    // Subscribe new traders on the shared sockets
+    for (const trader of traders) {
+      if (is_shutting_down) break;
+      if (socketSubscriptions.has(trader.id)) continue;
+      try {
         let socket = await initWebSocketTraderMemory(
           trader.address,
-          trader.user
+          trader.user,
+          trader.subaccount
         );
-        socketSubscriptions.set(trader.address, socket);
+        socketSubscriptions.set(trader.id, socket);
+      } catch (error) {
+        console.log(`Error subscribing trader ${trader.id}`, error);
       }
-    });
+    }
     return;
   } catch (error) {
     console.log("Error connecting to traders", error);
     throw error;
+  } finally {
+    is_connecting = false;
   }
 }
 
@@ -60,13 +139,90 @@ async function connectToTraders() {
  */
 const startApp = async () => {
   console.log("Initializing application...");
+  try {
+    // Refuses to start with tables not matching what the code queries
+    if (AUTO_MIGRATE) await migrate(connectDatabase());
+    await checkSchema(connectDatabase());
+  } catch (error) {
+    console.error("Database schema not ready, exiting:", error);
+    process.exit(1);
+  }
+  try {
+    // Refuses to start with notifications routed to sinks that can't be created
+    checkNotificationRoutes();
+  } catch (error) {
+    console.error("Invalid notification routes, exiting:", error);
+    process.exit(1);
+  }
   await fetchAndCachePairs(); // Fetch and cache trading pairs at startup
   startPairRefresh(); // Periodic refresh of cached pairs
+  marketsSocket = initWebSocketMarkets(); // Live prices of the tracked pairs
 
-  await connectToTraders();
+  await refreshTraders();
   startTradersRefresh(); // Periodic refresh of traders pairs
   await insertTrades.start();
+  await dispatchOutbox.start();
+  await updateUnrealizedPnl.start();
+  await recomputeStats.start();
+  apiServer = startApi(); // Read-only HTTP API
+};
+
+/**
+ * Stops the application without losing trades: stops the jobs and the subscriptions so no
+ * new rows come in, processes the messages the traders already received, writes the rows
+ * still pending, releases the leases of the traders so
+ * the other instances of the server group take them over right away, and closes the
+ * connections. The process exits anyway after SHUTDOWN_TIMEOUT, the rows left unwritten
+ * staying in the pending journal until the next start.
+ *
+ * @param {string} signal - The signal received.
+ */
+const shutdown = async (signal: string) => {
+  if (is_shutting_down) return;
+  is_shutting_down = true;
+  console.log(`${signal} received, shutting down...`);
+  const deadline = Date.now() + SHUTDOWN_TIMEOUT;
+  setTimeout(() => {
+    console.error("Shutdown timed out, exiting");
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT).unref();
+
+  try {
+    insertTrades.stop();
+    dispatchOutbox.stop();
+    updateUnrealizedPnl.stop();
+    recomputeStats.stop();
+    refreshTimers.forEach(clearInterval);
+    stopPairRefresh();
+    apiServer?.close();
+    await marketsSocket?.closeConnection();
+
+    const traders = [...socketSubscriptions.keys()];
+    // The messages already received are processed before the rows are drained
+    for (const [trader, socket] of socketSubscriptions) {
+      await socket.closeConnection(true);
+      socketSubscriptions.delete(trader);
+    }
+
+    // The traders are only handed over once their trades are written
+    const unwritten = await drainProcessor(deadline);
+    if (unwritten > 0) {
+      console.error(`${unwritten} rows left in the pending journal`);
+    } else {
+      await releaseLeases(traders);
+    }
+    await RabbitMQClient.getInstance().close();
+    await closeDatabase();
+    console.log("Shutdown complete");
+    process.exit(unwritten > 0 ? 1 : 0);
+  } catch (error) {
+    console.error("Error shutting down:", error);
+    process.exit(1);
+  }
 };
 
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
+
 // Execute the startApp function to start the application.
 startApp();
@@ -0,0 +1,68 @@
+import { closeDatabase, connectDatabase } from "./config/database";
+import {
+  baselineMigrations,
+  getPendingMigrations,
+  migrate,
+} from "./storage/migrations";
+
+const USAGE = `Usage: npm run migrate -- [command]
+
+Commands:
+  up                    Apply the pending migrations (default)
+  status                List the pending migrations
+  baseline <version>    Record the migrations up to a version as applied, without running them`;
+
+/**
+ * Runs a command of the migrations CLI.
+ * @param {string} command - The command.
+ * @param {string[]} args - The arguments of the command.
+ */
+async function run(command: string, args: string[]) {
+  const driver = connectDatabase();
+  switch (command) {
+    case "up": {
+      const applied = await migrate(driver);
+      console.log(
+        applied.length > 0
+          ? `Applied ${applied.length} migrations`
+          : "Database schema is up to date"
+      );
+      return;
+    }
+    case "status": {
+      const pending = await getPendingMigrations(driver);
+      if (pending.length === 0) console.log("Database schema is up to date");
+      pending.forEach((migration) =>
+        console.log(`Pending: ${migration.version}_${migration.name}`)
+      );
+      return;
+    }
+    case "baseline": {
+      if (!/^\d+$/.test(args[0] ?? ""))
+        throw new Error(`Invalid version: ${args[0] ?? "missing"}\n\n${USAGE}`);
+      const recorded = await baselineMigrations(driver, parseInt(args[0], 10));
+      console.log(`Recorded ${recorded.length} migrations as applied`);
+      return;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+/**
+ * Applies the migrations of the database schema of the storage client selected by
+ * DB_CLIENT, lists the pending ones or records them as applied, from the command line.
+ */
+const main = async () => {
+  const [command = "up", ...args] = process.argv.slice(2);
+  try {
+    await run(command, args);
+    await closeDatabase();
+    process.exit(0);
+  } catch (error) {
+    console.error("Error running migrations:", error);
+    process.exit(1);
+  }
+};
+
+main();
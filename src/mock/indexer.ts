@@ -0,0 +1,351 @@
+import express, { Request, Response } from "express";
+import http from "http";
+import { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+import {
+  DYDX_SUBACCOUNTS_CHANNEL,
+  MOCK_EQUITY,
+  MOCK_INDEXER_PORT,
+  MOCK_STEP_DELAY,
+} from "../constants";
+import {
+  CLOSED_STATUS,
+  DATA_TYPE,
+  OPEN_STATUS,
+  SUBSCRIPTION_TYPE,
+} from "../constants/dydx";
+import {
+  MockScenarioInterface,
+  MockStepInterface,
+} from "../constants/interfaces";
+import { SCENARIOS, toChannelPosition } from "./scenarios";
+
+/**
+ * State of a scenario played by the mock indexer
+ */
+interface ScenarioState {
+  scenario: MockScenarioInterface;
+  id: string;
+  cursor: number;
+  session: number;
+  socket: WebSocket | null;
+  height: number;
+  openPositions: Map<string, any>;
+  positions: Map<string, any>;
+  fills: any[];
+}
+
+/**
+ * Gets the page of the items of a subaccount created at or before a block height,
+ * sorted from the most recent one, like the indexer REST API does.
+ * @param {any[]} items - The items of the subaccount.
+ * @param {any} query - The query of the request (limit and createdBeforeOrAtHeight).
+ * @returns {any[]} - The items of the page.
+ */
+function getPage(items: any[], query: any): any[] {
+  const height = Number(query.createdBeforeOrAtHeight) || Infinity;
+  return items
+    .filter((item) => Number(item.createdAtHeight) <= height)
+    .sort((a, b) => Number(b.createdAtHeight) - Number(a.createdAtHeight))
+    .slice(0, Number(query.limit) || 100);
+}
+
+/**
+ * Creates a mock of the dYdX indexer, serving the WebSocket subaccounts channel on `/v4/ws`
+ * and the REST endpoints used by the tracker on `/v4`. Every subscribed trader subaccount is
+ * played its scenario: the `subscribed` snapshot of its open positions, then a `channel_data`
+ * message per step, or its malformed contents as they are. Disconnections and messages of
+ * undefined accounts make the tracker resubscribe, and the scenario resumes after the new snapshot. The REST endpoints answer with
+ * every position and fill played so far, so the tracker can backfill the missed steps.
+ *
+ * @param {MockScenarioInterface[]} scenarios - The scenarios, one per trader subaccount.
+ * @param {number} [stepDelay=MOCK_STEP_DELAY] - The delay between the messages of a scenario, in milliseconds.
+ */
+export function createMockIndexer(
+  scenarios: MockScenarioInterface[],
+  stepDelay: number = MOCK_STEP_DELAY
+) {
+  const states: Map<string, ScenarioState> = new Map(
+    scenarios.map((scenario) => {
+      const id = `${scenario.address}/${scenario.subaccount}`;
+      return [
+        id,
+        {
+          scenario,
+          id,
+          cursor: 0,
+          session: 0,
+          socket: null,
+          height: 0,
+          openPositions: new Map(),
+          positions: new Map(),
+          fills: [],
+        },
+      ];
+    })
+  );
+
+  let resolveFinished: () => void;
+  const finished = new Promise<void>((resolve) => {
+    resolveFinished = resolve;
+  });
+
+  /**
+   * Applies the positions and fills of a step to the state of its scenario.
+   * @param {ScenarioState} state - The state of the scenario.
+   * @param {MockStepInterface} step - The step to apply.
+   */
+  function applyStep(state: ScenarioState, step: MockStepInterface) {
+    for (const position of step.positions || []) {
+      state.positions.set(`${position.market}-${position.createdAtHeight}`, {
+        ...position,
+        subaccountNumber: state.scenario.subaccount,
+      });
+      if (position.status == OPEN_STATUS)
+        state.openPositions.set(position.market, position);
+      else if (position.status == CLOSED_STATUS)
+        state.openPositions.delete(position.market);
+    }
+    for (const fill of step.fills || []) {
+      state.fills.push(fill);
+      state.height = Math.max(state.height, Number(fill.createdAtHeight));
+    }
+  }
+
+  /**
+   * Sends a message of the subaccounts channel to the socket of a scenario.
+   * @param {ScenarioState} state - The state of the scenario.
+   * @param {Object} message - The type and content of the message.
+   */
+  function send(state: ScenarioState, message: any) {
+    if (!state.socket || state.socket.readyState !== WebSocket.OPEN) return;
+    state.socket.send(
+      JSON.stringify({
+        connection_id: "mock",
+        channel: DYDX_SUBACCOUNTS_CHANNEL,
+        id: state.id,
+        version: "3.0.0",
+        ...message,
+      })
+    );
+  }
+
+  /**
+   * Plays the next step of a scenario after the step delay, unless the trader
+   * resubscribed or disconnected in the meantime.
+   * @param {ScenarioState} state - The state of the scenario.
+   */
+  function playNext(state: ScenarioState) {
+    const session = state.session;
+    setTimeout(() => {
+      if (session !== state.session) return;
+      // Steps are held until the trader is subscribed again on an open socket
+      if (!state.socket || state.socket.readyState !== WebSocket.OPEN) return;
+      const step = state.scenario.steps[state.cursor];
+      if (!step) {
+        const pending = Array.from(states.values()).filter(
+          (s) => s.cursor < s.scenario.steps.length
+        );
+        if (pending.length === 0) resolveFinished();
+        return;
+      }
+      state.cursor++;
+
+      // Steps missed while disconnected are only known by the REST endpoints
+      if (step.type === "disconnect") {
+        (step.missed || []).forEach((missed) => applyStep(state, missed));
+        state.socket?.close(1012, "Mock restart");
+        return;
+      }
+      // The tracker is expected to resubscribe the trader
+      if (step.type === "undefined_account") {
+        send(state, { type: DATA_TYPE, account: null, contents: {} });
+        return;
+      }
+      // Malformed contents are sent as they are, without changing the subaccount
+      if (step.type === "malformed") {
+        send(state, { type: DATA_TYPE, contents: step.contents });
+        playNext(state);
+        return;
+      }
+
+      applyStep(state, step);
+      send(state, {
+        type: DATA_TYPE,
+        contents: {
+          perpetualPositions: (step.positions || []).map(toChannelPosition),
+          fills: step.fills || [],
+          blockHeight: String(state.height),
+        },
+      });
+      playNext(state);
+    }, stepDelay);
+  }
+
+  /**
+   * Handles a subscribe or unsubscribe request of the tracker.
+   * @param {WebSocket} socket - The socket of the request.
+   * @param {any} request - The parsed request.
+   */
+  function handleRequest(socket: WebSocket, request: any) {
+    const state = states.get(request.id);
+    if (!state) {
+      socket.send(
+        JSON.stringify({ type: "error", message: `Unknown id ${request.id}` })
+      );
+      return;
+    }
+
+    state.session++;
+    if (request.type === "unsubscribe") {
+      state.socket = null;
+      socket.send(JSON.stringify({ type: "unsubscribed", id: state.id }));
+      return;
+    }
+
+    state.socket = socket;
+    send(state, {
+      type: SUBSCRIPTION_TYPE,
+      contents: {
+        subaccount: {
+          address: state.scenario.address,
+          subaccountNumber: state.scenario.subaccount,
+          equity: MOCK_EQUITY,
+          openPerpetualPositions: Object.fromEntries(state.openPositions),
+        },
+        blockHeight: String(state.height),
+      },
+    });
+    playNext(state);
+  }
+
+  const app = express();
+
+  app.get("/v4/addresses/:address", (req: Request, res: Response) => {
+    const subaccounts = Array.from(states.values()).filter(
+      (state) => state.scenario.address === req.params.address
+    );
+    if (subaccounts.length === 0) {
+      res.status(404).json({ errors: [{ msg: "No subaccounts found" }] });
+      return;
+    }
+    res.json({
+      subaccounts: subaccounts.map((state) => ({
+        address: state.scenario.address,
+        subaccountNumber: state.scenario.subaccount,
+        equity: MOCK_EQUITY,
+      })),
+    });
+  });
+
+  app.get(
+    "/v4/addresses/:address/subaccountNumber/:subaccount",
+    (req: Request, res: Response) => {
+      const state = states.get(
+        `${req.params.address}/${req.params.subaccount}`
+      );
+      if (!state) {
+        res.status(404).json({ errors: [{ msg: "Subaccount not found" }] });
+        return;
+      }
+      res.json({
+        subaccount: {
+          address: state.scenario.address,
+          subaccountNumber: state.scenario.subaccount,
+          equity: MOCK_EQUITY,
+          openPerpetualPositions: Object.fromEntries(state.openPositions),
+        },
+      });
+    }
+  );
+
+  app.get("/v4/perpetualPositions", (req: Request, res: Response) => {
+    const state = states.get(
+      `${req.query.address}/${req.query.subaccountNumber}`
+    );
+    res.json({
+      positions: getPage(
+        Array.from(state?.positions.values() ?? []),
+        req.query
+      ),
+    });
+  });
+
+  app.get("/v4/fills", (req: Request, res: Response) => {
+    const state = states.get(
+      `${req.query.address}/${req.query.subaccountNumber}`
+    );
+    res.json({ fills: getPage(state?.fills ?? [], req.query) });
+  });
+
+  const server = http.createServer(app);
+  const wss = new WebSocketServer({ server, path: "/v4/ws" });
+
+  wss.on("connection", (socket: WebSocket) => {
+    socket.send(JSON.stringify({ type: "connected", connection_id: "mock" }));
+
+    socket.on("message", (data: any) => {
+      try {
+        handleRequest(socket, JSON.parse(data.toString()));
+      } catch (error) {
+        console.error("Mock indexer failed to handle request:", error);
+      }
+    });
+
+    // Scenarios of a closed socket wait for the trader to subscribe again
+    socket.on("close", () => {
+      states.forEach((state) => {
+        if (state.socket !== socket) return;
+        state.session++;
+        state.socket = null;
+      });
+    });
+  });
+
+  // Methods to manage the mock indexer
+  return {
+    /**
+     * Starts listening for connections.
+     * @param {number} [port=0] - The port to listen on, a random free one by default.
+     * @returns {Promise<number>} - The port listened on.
+     */
+    start: function (port = 0): Promise<number> {
+      return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, () =>
+          resolve((server.address() as AddressInfo).port)
+        );
+      });
+    },
+    /**
+     * Resolves once every step of every scenario has been played.
+     */
+    finished,
+    /**
+     * Closes the open sockets and stops listening.
+     */
+    close: function (): Promise<void> {
+      states.forEach((state) => state.session++);
+      wss.clients.forEach((client) => client.terminate());
+      return new Promise((resolve) => {
+        wss.close(() => server.close(() => resolve()));
+      });
+    },
+  };
+}
+
+// Serves the scenarios on MOCK_INDEXER_PORT when run directly
+if (require.main === module) {
+  const mock = createMockIndexer(SCENARIOS);
+  mock.start(MOCK_INDEXER_PORT).then((port) => {
+    console.log(`Mock indexer listening on port ${port}`);
+    console.log(`  DYDX_WEBSOCKET_URI=ws://localhost:${port}/v4/ws`);
+    console.log(`  DYDX_INDEXER_URI=http://localhost:${port}/v4`);
+    SCENARIOS.forEach((scenario) =>
+      console.log(
+        `  ${scenario.name}: ${scenario.address}/${scenario.subaccount}`
+      )
+    );
+  });
+  mock.finished.then(() => console.log("Every scenario has been played"));
+}
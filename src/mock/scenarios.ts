@@ -0,0 +1,347 @@
+import { CLOSED_STATUS, OPEN_STATUS } from "../constants/dydx";
+import { MockScenarioInterface } from "../constants/interfaces";
+
+// Date of the block 0 of the mocked chain, one block per second
+const GENESIS = Date.parse("2024-01-01T00:00:00.000Z");
+
+/**
+ * Gets the date of a block of the mocked chain.
+ * @param {number} height - The block height.
+ * @returns {string} - The date of the block, as an ISO string.
+ */
+function blockDate(height: number): string {
+  return new Date(GENESIS + height * 1000).toISOString();
+}
+
+/**
+ * Builds a perpetual position as sent by the indexer in the `subscribed` snapshot and by the
+ * REST API (see toChannelPosition for the changes of the subaccounts channel).
+ * @param {string} market - The market of the position (e.g. BTC-USD).
+ * @param {string} side - LONG or SHORT.
+ * @param {number} createdAtHeight - The block height the position was opened at.
+ * @param {Object} fields - The size, amounts opened and closed, prices and the height it was closed at, if closed.
+ * @returns {any} - The perpetual position.
+ */
+function position(
+  market: string,
+  side: string,
+  createdAtHeight: number,
+  fields: {
+    size: string;
+    sumOpen: string;
+    sumClose: string;
+    entryPrice: string;
+    exitPrice?: string;
+    closedAtHeight?: number;
+  }
+): any {
+  return {
+    market,
+    side,
+    status: fields.closedAtHeight ? CLOSED_STATUS : OPEN_STATUS,
+    size: fields.size,
+    maxSize: fields.sumOpen,
+    sumOpen: fields.sumOpen,
+    sumClose: fields.sumClose,
+    entryPrice: fields.entryPrice,
+    exitPrice: fields.exitPrice ?? null,
+    realizedPnl: "0",
+    unrealizedPnl: "0",
+    netFunding: "0",
+    createdAt: blockDate(createdAtHeight),
+    createdAtHeight: String(createdAtHeight),
+    closedAt: fields.closedAtHeight ? blockDate(fields.closedAtHeight) : null,
+    closedAtHeight: fields.closedAtHeight
+      ? String(fields.closedAtHeight)
+      : null,
+  };
+}
+
+/**
+ * Converts a perpetual position to the one of a `channel_data` message: the changes of the
+ * subaccounts channel don't carry when the position was created or closed, unlike the
+ * positions of the `subscribed` snapshot and of the REST API.
+ * @param {any} position - The perpetual position.
+ * @returns {any} - The position as sent in a change.
+ */
+export function toChannelPosition(position: any): any {
+  const { createdAt, createdAtHeight, closedAt, closedAtHeight, ...contents } =
+    position;
+  return contents;
+}
+
+/**
+ * Builds a fill as sent by the indexer.
+ * @param {string} id - The id of the fill.
+ * @param {string} market - The market of the fill (e.g. BTC-USD).
+ * @param {string} side - BUY or SELL.
+ * @param {string} size - The size filled.
+ * @param {string} price - The price of the fill.
+ * @param {string} fee - The fee paid.
+ * @param {number} height - The block height of the fill.
+ * @returns {any} - The fill.
+ */
+function fill(
+  id: string,
+  market: string,
+  side: string,
+  size: string,
+  price: string,
+  fee: string,
+  height: number
+): any {
+  return {
+    id,
+    market,
+    marketType: "PERPETUAL",
+    side,
+    liquidity: "TAKER",
+    type: "LIMIT",
+    size,
+    price,
+    fee,
+    orderId: `order-${id}`,
+    createdAt: blockDate(height),
+    createdAtHeight: String(height),
+  };
+}
+
+/**
+ * Scenarios played by the mock indexer, one per trader subaccount.
+ */
+export const SCENARIOS: MockScenarioInterface[] = [
+  // Open, add, partial close and full close of a long
+  {
+    name: "lifecycle",
+    address: "dydx1mocklifecycle",
+    subaccount: 0,
+    steps: [
+      {
+        type: "data",
+        positions: [
+          position("BTC-USD", "LONG", 100, {
+            size: "1",
+            sumOpen: "1",
+            sumClose: "0",
+            entryPrice: "100",
+          }),
+        ],
+        fills: [fill("lc-1", "BTC-USD", "BUY", "1", "100", "0.1", 100)],
+      },
+      {
+        type: "data",
+        positions: [
+          position("BTC-USD", "LONG", 100, {
+            size: "2",
+            sumOpen: "2",
+            sumClose: "0",
+            entryPrice: "103",
+          }),
+        ],
+        fills: [fill("lc-2", "BTC-USD", "BUY", "1", "106", "0.1", 101)],
+      },
+      {
+        type: "data",
+        positions: [
+          position("BTC-USD", "LONG", 100, {
+            size: "1.5",
+            sumOpen: "2",
+            sumClose: "0.5",
+            entryPrice: "103",
+            exitPrice: "120",
+          }),
+        ],
+        fills: [fill("lc-3", "BTC-USD", "SELL", "0.5", "120", "0.1", 102)],
+      },
+      {
+        type: "data",
+        positions: [
+          position("BTC-USD", "LONG", 100, {
+            size: "0",
+            sumOpen: "2",
+            sumClose: "2",
+            entryPrice: "103",
+            exitPrice: "127.5",
+            closedAtHeight: 103,
+          }),
+        ],
+        fills: [fill("lc-4", "BTC-USD", "SELL", "1.5", "130", "0.1", 103)],
+      },
+    ],
+  },
+  // Long flipped into a short, then closed
+  {
+    name: "flip",
+    address: "dydx1mockflip",
+    subaccount: 0,
+    steps: [
+      {
+        type: "data",
+        positions: [
+          position("ETH-USD", "LONG", 200, {
+            size: "2",
+            sumOpen: "2",
+            sumClose: "0",
+            entryPrice: "1000",
+          }),
+        ],
+        fills: [fill("fl-1", "ETH-USD", "BUY", "2", "1000", "1", 200)],
+      },
+      {
+        type: "data",
+        positions: [
+          position("ETH-USD", "SHORT", 201, {
+            size: "-1",
+            sumOpen: "3",
+            sumClose: "0",
+            entryPrice: "1100",
+          }),
+        ],
+        fills: [fill("fl-2", "ETH-USD", "SELL", "3", "1100", "1.5", 201)],
+      },
+      {
+        type: "data",
+        positions: [
+          position("ETH-USD", "SHORT", 201, {
+            size: "0",
+            sumOpen: "3",
+            sumClose: "1",
+            entryPrice: "1100",
+            exitPrice: "1050",
+            closedAtHeight: 202,
+          }),
+        ],
+        fills: [fill("fl-3", "ETH-USD", "BUY", "1", "1050", "0.5", 202)],
+      },
+    ],
+  },
+  // Position closed while disconnected, recovered by the backfill
+  {
+    name: "disconnect",
+    address: "dydx1mockdisconnect",
+    subaccount: 0,
+    steps: [
+      {
+        type: "data",
+        positions: [
+          position("BTC-USD", "LONG", 300, {
+            size: "1",
+            sumOpen: "1",
+            sumClose: "0",
+            entryPrice: "100",
+          }),
+        ],
+        fills: [fill("dc-1", "BTC-USD", "BUY", "1", "100", "0.1", 300)],
+      },
+      {
+        type: "disconnect",
+        missed: [
+          {
+            type: "data",
+            positions: [
+              position("BTC-USD", "LONG", 300, {
+                size: "0",
+                sumOpen: "1",
+                sumClose: "1",
+                entryPrice: "100",
+                exitPrice: "90",
+                closedAtHeight: 301,
+              }),
+            ],
+            fills: [fill("dc-2", "BTC-USD", "SELL", "1", "90", "0.1", 301)],
+          },
+        ],
+      },
+      {
+        type: "data",
+        positions: [
+          position("ETH-USD", "LONG", 302, {
+            size: "1",
+            sumOpen: "1",
+            sumClose: "0",
+            entryPrice: "1000",
+          }),
+        ],
+        fills: [fill("dc-3", "ETH-USD", "BUY", "1", "1000", "1", 302)],
+      },
+    ],
+  },
+  // Message of an undefined account forcing a resubscription mid-trade
+  {
+    name: "undefined_account",
+    address: "dydx1mockundefined",
+    subaccount: 0,
+    steps: [
+      {
+        type: "data",
+        positions: [
+          position("SOL-USD", "LONG", 400, {
+            size: "10",
+            sumOpen: "10",
+            sumClose: "0",
+            entryPrice: "20",
+          }),
+        ],
+        fills: [fill("ua-1", "SOL-USD", "BUY", "10", "20", "0.2", 400)],
+      },
+      { type: "undefined_account" },
+      {
+        type: "data",
+        positions: [
+          position("SOL-USD", "LONG", 400, {
+            size: "0",
+            sumOpen: "10",
+            sumClose: "10",
+            entryPrice: "20",
+            exitPrice: "25",
+            closedAtHeight: 401,
+          }),
+        ],
+        fills: [fill("ua-2", "SOL-USD", "SELL", "10", "25", "0.2", 401)],
+      },
+    ],
+  },
+  // Change with a malformed position, quarantined without stopping the trade
+  {
+    name: "malformed",
+    address: "dydx1mockmalformed",
+    subaccount: 0,
+    steps: [
+      {
+        type: "data",
+        positions: [
+          position("BTC-USD", "LONG", 500, {
+            size: "1",
+            sumOpen: "1",
+            sumClose: "0",
+            entryPrice: "100",
+          }),
+        ],
+        fills: [fill("mf-1", "BTC-USD", "BUY", "1", "100", "0.1", 500)],
+      },
+      {
+        type: "malformed",
+        contents: {
+          perpetualPositions: [
+            { market: "BTC-USD", side: "LONG", status: "OPEN", size: "2" },
+          ],
+          fills: [],
+        },
+      },
+      {
+        type: "data",
+        positions: [
+          position("BTC-USD", "LONG", 500, {
+            size: "0",
+            sumOpen: "1",
+            sumClose: "1",
+            entryPrice: "100",
+            exitPrice: "110",
+            closedAtHeight: 501,
+          }),
+        ],
+        fills: [fill("mf-2", "BTC-USD", "SELL", "1", "110", "0.1", 501)],
+      },
+    ],
+  },
+];
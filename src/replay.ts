@@ -0,0 +1,146 @@
+import { WRITE_BATCH_SIZE } from "./constants";
+import { DATA_TYPE, SUBSCRIPTION_TYPE } from "./constants/dydx";
+import { TradeInterface } from "./constants/interfaces";
+import { redirectRows, waitForProcessor } from "./services/processor";
+import { processPositions } from "./utils/functions";
+import { appendToJournal } from "./utils/journal";
+import { readRecording } from "./utils/recorder";
+import { updateClosedTradesStats } from "./utils/stats";
+import { fetchAndCachePairs, trackSymbols } from "./utils/symbols";
+import {
+  closeMissingPositions,
+  processSubscriptions,
+  updatePosition,
+} from "./utils/trading";
+import { validateMessage } from "./utils/validation";
+
+const USAGE = `Usage: npm run replay -- <recording.jsonl> [options]
+
+Options:
+  --target=stdout|file|database  Where the rows are written (default: stdout)
+  --output=<file>                File of the "file" target (default: <recording>.rows.jsonl)
+  --user=<id>                    User the trader belongs to (default: 0)
+  --symbols=<BTCUSD,ETHUSD>      Symbols tracked, instead of the active tokens of the database`;
+
+/**
+ * Parses the `--name=value` options of the command line.
+ * @param {string[]} args - The arguments of the command.
+ * @returns {Object} - The recording file and the options, keyed by name.
+ */
+function parseArgs(args: string[]) {
+  const options: { [name: string]: string } = {};
+  const files: string[] = [];
+  for (const arg of args) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) options[match[1]] = match[2];
+    else files.push(arg);
+  }
+  return { file: files[0], options };
+}
+
+/**
+ * Writes the rows of the replay to the database, without the events of the trades so
+ * the notifications already published are not sent again.
+ * @param {any[]} rows - The rows of the replay.
+ */
+async function writeToDatabase(rows: any[]) {
+  const silenced = rows
+    .filter((row) => row[row.length - 1] !== "notification")
+    .map((row) =>
+      row[row.length - 1] === "fill"
+        ? row
+        : [...row.slice(0, -2), null, row[row.length - 1]]
+    );
+  for (let i = 0; i < silenced.length; i += WRITE_BATCH_SIZE) {
+    await processPositions(silenced.slice(i, i + WRITE_BATCH_SIZE));
+  }
+  await updateClosedTradesStats(silenced);
+}
+
+/**
+ * Replays a recording of the raw WebSocket messages of a trader through the position
+ * engine, the same way the message queue of the trader processes them, from an empty
+ * state. The rows produced are written in order to the chosen target.
+ */
+const replay = async () => {
+  const { file, options } = parseArgs(process.argv.slice(2));
+  const target = options.target || "stdout";
+  if (!file || !["stdout", "file", "database"].includes(target)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  const output = options.output || file.replace(/\.jsonl$/, "") + ".rows.jsonl";
+  const user = parseInt(options.user || "0", 10);
+
+  // Logs of the engine go to stderr, so stdout only carries the rows
+  console.log = console.error;
+
+  if (options.symbols) trackSymbols(options.symbols.split(","));
+  else await fetchAndCachePairs();
+
+  const rows: any[] = [];
+  redirectRows((row) => {
+    if (target === "stdout") process.stdout.write(JSON.stringify(row) + "\n");
+    else rows.push(row);
+  });
+
+  const messages = readRecording(file);
+  const TRADER_POSITIONS: Map<string, TradeInterface> = new Map();
+  for (const message of messages) {
+    const [account, subaccount] = (message.id || "").split("/");
+
+    // Messages quarantined by the tracker are skipped the same way
+    const reason = validateMessage(message);
+    if (reason) {
+      console.error(`Skipping invalid message of ${message.id}: ${reason}`);
+      continue;
+    }
+
+    // TYPE 1 --> subscription, restoring from its snapshot
+    if (message.type == SUBSCRIPTION_TYPE) {
+      const positions = message?.contents?.subaccount?.openPerpetualPositions;
+      await processSubscriptions(
+        user,
+        TRADER_POSITIONS,
+        account,
+        Number(subaccount),
+        positions
+      );
+      if (positions)
+        await closeMissingPositions(
+          user,
+          TRADER_POSITIONS,
+          account,
+          Number(subaccount),
+          positions
+        );
+    }
+    // TYPE 2 --> data (some change on position)
+    else if (message.type == DATA_TYPE) {
+      await updatePosition(
+        user,
+        TRADER_POSITIONS,
+        account,
+        Number(subaccount),
+        message?.contents?.perpetualPositions,
+        message?.contents?.fills
+      );
+    }
+    // Rows are produced in the order of the messages
+    await waitForProcessor();
+  }
+
+  if (target === "file") appendToJournal(output, rows);
+  if (target === "database") await writeToDatabase(rows);
+  console.error(
+    `Replayed ${messages.length} messages of ${file}: ${
+      target === "stdout" ? "rows written to stdout" : `${rows.length} rows`
+    }${target === "file" ? ` written to ${output}` : ""}`
+  );
+  process.exit(0);
+};
+
+replay().catch((error) => {
+  console.error("Error replaying recording:", error);
+  process.exit(1);
+});
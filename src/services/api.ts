@@ -0,0 +1,160 @@
+import express, { NextFunction, Request, Response } from "express";
+import { Server } from "http";
+import { API_PORT, MAX_PAGE_SIZE_API, PAGE_SIZE_API } from "../constants";
+import {
+  PageInterface,
+  TradeFiltersInterface,
+  TradeInterface,
+  TraderInterface,
+} from "../constants/interfaces";
+import { getClosedTrades } from "../utils/trading";
+import { getUserStats, UserStatsInterface } from "../utils/stats";
+import { getHealth, getMetrics } from "./health";
+import { getSubscribedTraders, getTraderPositions } from "./websocket";
+
+/**
+ * Error raised by an invalid request parameter, answered with a 400 status.
+ */
+class BadRequestError extends Error {}
+
+/**
+ * Parses an optional integer request parameter.
+ * @param {any} value - The raw value of the parameter.
+ * @param {string} name - The name of the parameter, for the error message.
+ * @param {number} min - The minimum value accepted.
+ * @returns {number | undefined} - The parsed integer, or undefined if the parameter is missing.
+ * @throws {BadRequestError} If the value is not an integer of at least `min`.
+ */
+function parseInteger(
+  value: any,
+  name: string,
+  min: number
+): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new BadRequestError(`${name} must be an integer >= ${min}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses an optional date request parameter.
+ * @param {any} value - The raw value of the parameter.
+ * @param {string} name - The name of the parameter, for the error message.
+ * @returns {string | undefined} - The date as an ISO string, or undefined if the parameter is missing.
+ * @throws {BadRequestError} If the value is not a valid date.
+ */
+function parseDate(value: any, name: string): string | undefined {
+  if (value === undefined || value === "") return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new BadRequestError(`${name} must be a valid date`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Creates the read-only HTTP API over the tracked traders, their open positions (from the
+ * live in-memory state), their closed trades and their stats, along with the health report
+ * and the Prometheus metrics of the listener.
+ * @returns {express.Express} - The express application.
+ */
+export function createApi() {
+  const app = express();
+
+  // Health report, answered with a 503 status when degraded
+  app.get("/health", (req: Request, res: Response) => {
+    const health = getHealth();
+    res.status(health.status === "ok" ? 200 : 503).json(health);
+  });
+
+  // Prometheus metrics
+  app.get("/metrics", (req: Request, res: Response) => {
+    res.type("text/plain; version=0.0.4").send(getMetrics());
+  });
+
+  // Subscribed trader subaccounts
+  app.get("/traders", (req: Request, res: Response<TraderInterface[]>) => {
+    res.json(getSubscribedTraders());
+  });
+
+  // Open positions of a trader, optionally of a single subaccount
+  app.get(
+    "/traders/:address/positions",
+    (req: Request, res: Response<TradeInterface[]>) => {
+      const subaccount = parseInteger(req.query.subaccount, "subaccount", 0);
+      res.json(getTraderPositions(req.params.address, subaccount));
+    }
+  );
+
+  // Closed trades, filtered and paginated
+  app.get(
+    "/trades",
+    async (
+      req: Request,
+      res: Response<PageInterface<TradeInterface>>,
+      next: NextFunction
+    ) => {
+      try {
+        const filters: TradeFiltersInterface = {
+          user: parseInteger(req.query.user, "user", 1),
+          address: req.query.address ? String(req.query.address) : undefined,
+          token: req.query.token ? String(req.query.token) : undefined,
+          from: parseDate(req.query.from, "from"),
+          to: parseDate(req.query.to, "to"),
+        };
+        const page = parseInteger(req.query.page, "page", 1) ?? 1;
+        const limit = Math.min(
+          parseInteger(req.query.limit, "limit", 1) ?? PAGE_SIZE_API,
+          MAX_PAGE_SIZE_API
+        );
+        res.json(await getClosedTrades(filters, page, limit));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Stats of a user, overall and per token
+  app.get(
+    "/users/:user/stats",
+    async (
+      req: Request,
+      res: Response<UserStatsInterface[]>,
+      next: NextFunction
+    ) => {
+      try {
+        const user = parseInteger(req.params.user, "user", 1) as number;
+        res.json(await getUserStats(user));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({ error: "Not found" });
+  });
+
+  app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+    if (error instanceof BadRequestError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error(`Error on API request ${req.method} ${req.path}: `, error);
+    res.status(500).json({ error: "Internal server error" });
+  });
+
+  return app;
+}
+
+/**
+ * Starts the HTTP API on API_PORT.
+ * @returns {Server} - The HTTP server listening for requests.
+ */
+export function startApi(): Server {
+  return createApi().listen(API_PORT, () => {
+    console.log(`API listening on port ${API_PORT}`);
+  });
+}
@@ -1,14 +1,24 @@
 import cron from "node-cron";
-import { TO_PROCESS, clearQueue } from "./processor";
-import { processPositions } from "../utils/functions";
-import { UDPATE_INTERVAL } from "../constants";
+import { flushTrades } from "./processor";
+import { dispatchNotifications } from "../utils/outbox";
+import { refreshUnrealizedPnl } from "./markets";
+import { recomputeAllStats } from "../utils/stats";
+import {
+  DISPATCH_INTERVAL,
+  STATS_INTERVAL,
+  UDPATE_INTERVAL,
+  UNREALIZED_INTERVAL,
+} from "../constants";
 
-let is_processing = false;
+let is_dispatching = false;
+let is_refreshing = false;
+let is_recomputing = false;
 
 /**
  * Schedules a cron job to insert or update trades in the database.
- * The job runs every 10 seconds, processes the trades to be inserted or updated,
- * clears the to_create queue, and logs the processing status.
+ * The job runs every 10 seconds and flushes the buffered trades to the database.
+ * Trades are only removed from the buffer once committed, failed batches are retried
+ * with backoff by the following runs.
  * If an error occurs during processing, it logs the error message.
  *
  * @returns {CronJob} - The scheduled cron job.
@@ -16,19 +26,89 @@ let is_processing = false;
 export const insertTrades = cron.schedule(
   `*/${UDPATE_INTERVAL} * * * * *`, // Runs every 10 secs
   async () => {
-    if (is_processing) return;
-    is_processing = true;
-    // Clear the queue before processing new trades
-    let to_process = TO_PROCESS;
-    await clearQueue();
-    console.log("PROCESSING TRADES... ", to_process.length);
     try {
-      // Process the positions to be inserted or updated in the database
-      await processPositions(to_process);
+      // Flush the positions to be inserted or updated in the database
+      await flushTrades();
     } catch (error) {
       console.log("Error on insertTrades cron job: ", error);
+    }
+  },
+  {
+    scheduled: true,
+    timezone: "UTC",
+  }
+);
+
+/**
+ * Schedules a cron job to publish the notifications recorded in the outbox.
+ * The job runs every 5 seconds and publishes the pending notifications in order,
+ * skipping the run if the previous one is still publishing.
+ *
+ * @returns {CronJob} - The scheduled cron job.
+ */
+export const dispatchOutbox = cron.schedule(
+  `*/${DISPATCH_INTERVAL} * * * * *`, // Runs every 5 secs
+  async () => {
+    if (is_dispatching) return;
+    is_dispatching = true;
+    try {
+      await dispatchNotifications();
+    } catch (error) {
+      console.log("Error on dispatchOutbox cron job: ", error);
+    } finally {
+      is_dispatching = false;
+    }
+  },
+  {
+    scheduled: true,
+    timezone: "UTC",
+  }
+);
+
+/**
+ * Schedules a cron job to refresh the unrealized PnL of the open positions.
+ * The job runs every 30 seconds and values every open position at the latest
+ * market price, skipping the run if the previous one is still writing.
+ *
+ * @returns {CronJob} - The scheduled cron job.
+ */
+export const updateUnrealizedPnl = cron.schedule(
+  `*/${UNREALIZED_INTERVAL} * * * * *`, // Runs every 30 secs
+  async () => {
+    if (is_refreshing) return;
+    is_refreshing = true;
+    try {
+      await refreshUnrealizedPnl();
+    } catch (error) {
+      console.log("Error on updateUnrealizedPnl cron job: ", error);
+    } finally {
+      is_refreshing = false;
+    }
+  },
+  {
+    scheduled: true,
+    timezone: "UTC",
+  }
+);
+
+/**
+ * Schedules a cron job to recompute the stats of every user from their closed trades.
+ * Stats are updated as trades close, the job runs every hour to repair any update missed,
+ * skipping the run if the previous one is still recomputing.
+ *
+ * @returns {CronJob} - The scheduled cron job.
+ */
+export const recomputeStats = cron.schedule(
+  `0 0 */${STATS_INTERVAL} * * *`, // Runs every hour
+  async () => {
+    if (is_recomputing) return;
+    is_recomputing = true;
+    try {
+      await recomputeAllStats();
+    } catch (error) {
+      console.log("Error on recomputeStats cron job: ", error);
     } finally {
-      is_processing = false;
+      is_recomputing = false;
     }
   },
   {
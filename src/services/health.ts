@@ -0,0 +1,82 @@
+import { HEALTH_MAX_FLUSH_AGE } from "../constants";
+import { getActiveConnections } from "../config/database";
+import RabbitMQClient from "../config/messaging";
+import { renderMetrics } from "../utils/metrics";
+import { getShardingHealth } from "../utils/sharding";
+import { getProcessorHealth } from "./processor";
+import { getSocketsHealth } from "./websocket";
+
+/**
+ * Gets the health report of the listener: the state of every pooled connection and of the
+ * traders subscribed on them, the write pipeline, the leases of the instance, the database
+ * pool and RabbitMQ.
+ * The process is degraded when a connection is not open or the buffered rows have not
+ * been written for HEALTH_MAX_FLUSH_AGE seconds.
+ * @returns {Object} - The health report, with an overall status of "ok" or "degraded".
+ */
+export function getHealth() {
+  const sockets = getSocketsHealth();
+  const processor = getProcessorHealth();
+  const degraded =
+    sockets.some((socket) => socket.state !== "open") ||
+    (processor.seconds_since_last_flush !== null &&
+      processor.seconds_since_last_flush > HEALTH_MAX_FLUSH_AGE);
+
+  return {
+    status: degraded ? "degraded" : "ok",
+    uptime: Math.round(process.uptime()),
+    sockets,
+    processor,
+    sharding: getShardingHealth(),
+    database: { active_connections: getActiveConnections() },
+    rabbitmq: { connected: RabbitMQClient.getInstance().isConnected() },
+  };
+}
+
+/**
+ * Gets the metrics of the listener in the Prometheus text format, with the counters of the
+ * process and the gauges of the current health report.
+ * @returns {string} - The metrics exposition.
+ */
+export function getMetrics(): string {
+  const health = getHealth();
+  return renderMetrics({
+    dydx_websocket_up: health.sockets.map((socket) => ({
+      labels: { socket: socket.index },
+      value: socket.state === "open" ? 1 : 0,
+    })),
+    dydx_websocket_subscriptions: health.sockets.map((socket) => ({
+      labels: { socket: socket.index },
+      value: socket.traders.length,
+    })),
+    dydx_websocket_last_message_seconds: health.sockets
+      .filter((socket) => socket.seconds_since_last_message !== null)
+      .map((socket) => ({
+        labels: { socket: socket.index },
+        value: socket.seconds_since_last_message as number,
+      })),
+    dydx_message_queue_depth: [
+      {
+        value: health.sockets.reduce(
+          (sum, socket) =>
+            sum +
+            socket.traders.reduce(
+              (total, trader) => total + trader.queue_depth,
+              0
+            ),
+          0
+        ),
+      },
+    ],
+    dydx_processor_queue_depth: [{ value: health.processor.queue_depth }],
+    dydx_pending_rows: [{ value: health.processor.pending_rows }],
+    dydx_last_flush_seconds:
+      health.processor.seconds_since_last_flush === null
+        ? []
+        : [{ value: health.processor.seconds_since_last_flush }],
+    dydx_db_active_connections: [{ value: health.database.active_connections }],
+    dydx_rabbitmq_up: [{ value: health.rabbitmq.connected ? 1 : 0 }],
+    dydx_live_instances: [{ value: health.sharding.live_instances }],
+    dydx_trader_leases: [{ value: health.sharding.leases }],
+  });
+}
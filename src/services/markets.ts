@@ -0,0 +1,177 @@
+import WebSocket from "ws";
+import {
+  AMOUNT_DECIMALS,
+  DYDX_MARKETS_CHANNEL,
+  DYDX_WEBSOCKET_URI,
+  PRICE_DECIMALS,
+  RECONNECT_INTERVAL,
+} from "../constants";
+import {
+  BATCH_DATA_TYPE,
+  DATA_TYPE,
+  PING_INTERVAL,
+  SUBSCRIPTION_TYPE,
+} from "../constants/dydx";
+import { getStorage } from "../storage";
+import { convertToDecimal } from "../utils/functions";
+import { computeUnrealizedPnl } from "../utils/pnl";
+import { incrementCounter } from "../utils/metrics";
+import { isTrackedSymbol } from "../utils/symbols";
+import { getTraderPositions } from "./websocket";
+
+// Latest oracle price of every tracked market, keyed by symbol
+const MARKET_PRICES: Map<string, string> = new Map();
+
+/**
+ * Gets the latest known price of a market.
+ * @param {string} symbol - The symbol of the market (e.g. BTCUSD).
+ * @returns {string | undefined} - The latest oracle price of the market, if known.
+ */
+export function getMarketPrice(symbol: string): string | undefined {
+  return MARKET_PRICES.get(symbol);
+}
+
+/**
+ * Stores the oracle prices of the tracked markets from a v4_markets payload.
+ * @param {Object} markets - The market data keyed by ticker (e.g. BTC-USD).
+ */
+async function updateMarketPrices(markets: any) {
+  for (const ticker in markets || {}) {
+    const oraclePrice = markets[ticker]?.oraclePrice;
+    const symbol = ticker.replace(/-/g, "");
+    if (!oraclePrice || !(await isTrackedSymbol(symbol))) continue;
+    MARKET_PRICES.set(symbol, oraclePrice);
+  }
+}
+
+/**
+ * Initializes and manages the WebSocket connection to the dYdX markets channel,
+ * keeping the latest oracle prices of the tracked markets in memory.
+ */
+export function initWebSocketMarkets() {
+  let websocket: WebSocket | null = null;
+  let heartbeatTimer: NodeJS.Timeout | null = null;
+  let shouldReconnect = true; // Flag to control reconnection
+
+  /**
+   * Resets the heartbeat timer of the markets connection.
+   * Ensures reconnection if no ping or messages are received within the PING_INTERVAL.
+   */
+  function resetHeartbeatTimer() {
+    if (heartbeatTimer) clearTimeout(heartbeatTimer);
+    heartbeatTimer = setTimeout(() => {
+      console.log("No ping or messages received on markets, reconnecting...");
+      websocket?.close();
+    }, PING_INTERVAL);
+  }
+
+  /**
+   * Establishes the WebSocket connection and sets up event listeners.
+   */
+  function connect() {
+    const socket = new WebSocket(DYDX_WEBSOCKET_URI);
+    websocket = socket;
+
+    socket.on("open", () => {
+      console.log("Connected to the dYdX markets channel.");
+      socket.send(
+        JSON.stringify({
+          type: "subscribe",
+          channel: DYDX_MARKETS_CHANNEL,
+          batched: true,
+        })
+      );
+      resetHeartbeatTimer();
+    });
+
+    socket.on("message", async (data: any) => {
+      resetHeartbeatTimer();
+      try {
+        const parsedMessage = JSON.parse(data.toString());
+        if (parsedMessage.channel !== DYDX_MARKETS_CHANNEL) return;
+
+        // TYPE 1 --> subscription, with the snapshot of every market
+        if (parsedMessage.type == SUBSCRIPTION_TYPE) {
+          await updateMarketPrices(parsedMessage?.contents?.markets);
+        }
+        // TYPE 2 --> data, with the oracle prices updated
+        if (parsedMessage.type == DATA_TYPE) {
+          await updateMarketPrices(parsedMessage?.contents?.oraclePrices);
+        }
+        if (parsedMessage.type == BATCH_DATA_TYPE) {
+          for (const contents of parsedMessage?.contents || []) {
+            await updateMarketPrices(contents?.oraclePrices);
+          }
+        }
+      } catch (error) {
+        console.error("Error processing markets message:", error);
+      }
+    });
+
+    socket.on("error", (error: any) => {
+      console.log("Markets connection error:", error);
+    });
+
+    socket.on("close", (code: any, reason: any) => {
+      console.log(`Markets WebSocket closed. Code: ${code}, Reason: ${reason}`);
+      if (heartbeatTimer) clearTimeout(heartbeatTimer);
+      if (!shouldReconnect) return;
+      incrementCounter("dydx_websocket_reconnects_total", {
+        socket: "markets",
+      });
+      setTimeout(connect, RECONNECT_INTERVAL);
+    });
+
+    socket.on("ping", () => {
+      resetHeartbeatTimer();
+    });
+  }
+
+  connect();
+
+  // Methods to manage the WebSocket connection
+  return {
+    closeConnection: async function () {
+      shouldReconnect = false; // Prevent reconnection
+      if (heartbeatTimer) clearTimeout(heartbeatTimer);
+      if (websocket) {
+        websocket.close();
+        console.log("Closed markets WebSocket connection");
+      }
+    },
+  };
+}
+
+/**
+ * Recomputes the unrealized PnL, current notional and ROI of every open position held
+ * in memory with the latest market prices, and stores them on the open trades. Only these
+ * columns are written, so no trade update nor notification is generated.
+ * @throws {Error} Throws an error if the transaction fails, the next run writing the latest values.
+ */
+export async function refreshUnrealizedPnl() {
+  const updates: { tradeId: string; values: any[] }[] = [];
+  for (const trader_position of getTraderPositions()) {
+    const markPrice = MARKET_PRICES.get(trader_position.token);
+    if (!markPrice || !trader_position.limit_price) continue;
+
+    const unrealized = computeUnrealizedPnl(
+      trader_position.size,
+      trader_position.limit_price,
+      markPrice
+    );
+    Object.assign(trader_position, unrealized);
+
+    updates.push({
+      tradeId: trader_position.trade_id,
+      values: [
+        await convertToDecimal(unrealized.mark_price, PRICE_DECIMALS),
+        await convertToDecimal(unrealized.unrealized_pnl, AMOUNT_DECIMALS),
+        await convertToDecimal(unrealized.notional, AMOUNT_DECIMALS),
+        await convertToDecimal(unrealized.roi, AMOUNT_DECIMALS),
+      ],
+    });
+  }
+  // Every position of the tick is written in a single transaction
+  await getStorage().trades.updateUnrealized(updates);
+  console.log("UNREALIZED PNL UPDATED... ", updates.length);
+}
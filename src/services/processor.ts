@@ -1,48 +1,89 @@
 import async from "async";
-import { convertToDecimal } from "../utils/functions";
-import { convertToSqlDate, getSqlDate } from "../utils/database";
-import { AMOUNT_DECIMALS, PRICE_DECIMALS } from "../constants";
-import { TradeInterface } from "../constants/interfaces";
+import path from "path";
+import { convertToDecimal, processPositions } from "../utils/functions";
+import {
+  convertToSqlDate,
+  getSqlDate,
+  isPermanentSqlError,
+} from "../utils/database";
+import { appendToJournal, readJournal, rewriteJournal } from "../utils/journal";
+import { updateClosedTradesStats } from "../utils/stats";
+import { evaluateAlerts } from "../utils/alerts";
+import {
+  commitOrderIntents,
+  discardOrderIntents,
+  generateOrderIntents,
+} from "../utils/copytrading";
+import {
+  AMOUNT_DECIMALS,
+  JOURNAL_DIR,
+  PRICE_DECIMALS,
+  WRITE_BATCH_SIZE,
+  WRITE_MAX_RETRY_DELAY,
+  WRITE_RETRY_DELAY,
+} from "../constants";
+import {
+  ALERTS_QUEUE,
+  ALERT_NOTIFICATION_DURATION,
+  ORDER_INTENTS_QUEUE,
+  ORDER_INTENT_DURATION,
+} from "../constants/queues";
+import {
+  FillInterface,
+  OrderIntentInterface,
+  ProcessorHealthInterface,
+  TradeEventInterface,
+  TradeInterface,
+} from "../constants/interfaces";
 
-export let TO_PROCESS: any[] = [];
+const PENDING_JOURNAL = path.join(JOURNAL_DIR, "pending_trades.jsonl");
+const DEAD_LETTER_JOURNAL = path.join(JOURNAL_DIR, "dead_letter_trades.jsonl");
+
+// Rows pending to be written, mirrored on the pending journal until acknowledged
+export let TO_PROCESS: any[] = readJournal(PENDING_JOURNAL);
+if (TO_PROCESS.length > 0) {
+  console.log(`RECOVERED ${TO_PROCESS.length} pending trades from journal`);
+}
+
+let is_flushing = false;
+let retryDelay = WRITE_RETRY_DELAY;
+let retryAt = 0;
+let lastFlushAt: number | null = null;
+
+// Receives the rows instead of the write pipeline while replaying recorded messages
+let rowsHandler: ((row: any[]) => void) | null = null;
 
 /**
- * Processor queue to handle the processing of trader positions.
- * The queue processes tasks asynchronously, converting and pushing the trader position data
- * into the TO_PROCESS array for further processing.
+ * Processor queue to handle the processing of trader positions, fills and notifications.
+ * The queue processes tasks asynchronously, converting and pushing the trader position, fill or notification data
+ * into the TO_PROCESS array (and the pending journal) for further processing.
  *
- * @param {object} task - The task object containing the trader position to be processed.
+ * @param {object} task - The task object containing the trader position, the fill or the notification to be processed.
  * @param {function} callback - The callback function to be called after processing the task.
  */
 const processorQueue = async.queue(async (task: any, callback: any) => {
   try {
-    // Convert trader position data to the required format and push it to TO_PROCESS
-    let trader_position = task.trader_position;
-    TO_PROCESS.push([
-      trader_position.user,
-      trader_position.trade_id,
-      trader_position.trader_address,
-      trader_position.token,
-      trader_position.bias,
-      await convertToDecimal(trader_position.size, AMOUNT_DECIMALS),
-      await convertToDecimal(trader_position.sum_open, AMOUNT_DECIMALS),
-      await convertToDecimal(trader_position.limit_price, PRICE_DECIMALS),
-      await convertToDecimal(trader_position.exit_price, PRICE_DECIMALS),
-      await convertToSqlDate(trader_position.start_date),
-      trader_position.end_date === null
-        ? null
-        : await convertToSqlDate(trader_position.end_date),
-      await convertToDecimal(trader_position.funding, AMOUNT_DECIMALS),
-      await convertToDecimal(trader_position.realised_pnl, AMOUNT_DECIMALS),
-      await convertToDecimal(trader_position.pnl, AMOUNT_DECIMALS),
-      trader_position.is_profitable,
-      await getSqlDate(),
-      trader_position.type,
-    ]);
-    console.log(
-      `NEW position for ${trader_position.trader_address} ===> `,
-      TO_PROCESS.length
-    );
+    // Convert trader position (or fill) data to the required format and push it to TO_PROCESS
+    const row = task.fill
+      ? await toFillRow(task.fill)
+      : task.notification
+      ? toNotificationRow(task.notification)
+      : await toTradeRow(task.trader_position, task.event);
+    if (rowsHandler) {
+      rowsHandler(row);
+      return callback();
+    }
+    // Journal the row before buffering it, so it survives a crash
+    appendToJournal(PENDING_JOURNAL, [row]);
+    TO_PROCESS.push(row);
+    console.log(`NEW ${row[row.length - 1]} row ===> `, TO_PROCESS.length);
+
+    // Flush by size
+    if (TO_PROCESS.length >= WRITE_BATCH_SIZE) {
+      flushTrades().catch((error) =>
+        console.log("Error flushing trades by size: ", error)
+      );
+    }
     callback(); // Indicate task completion
   } catch (error) {
     console.log("Error on processorQueue: ", error);
@@ -50,17 +91,338 @@ const processorQueue = async.queue(async (task: any, callback: any) => {
   }
 }, 1);
 
+/**
+ * Converts a trader position into a row of the trades table, followed by the event to
+ * notify (or null) and tagged with its type.
+ * @param {any} trader_position - The trader position to convert.
+ * @param {TradeEventInterface | null} event - The event of the change, if it is notified.
+ * @returns {Promise<any[]>} - The row of the trader position.
+ */
+async function toTradeRow(
+  trader_position: any,
+  event: TradeEventInterface | null
+): Promise<any[]> {
+  return [
+    trader_position.user,
+    trader_position.trade_id,
+    trader_position.trader_address,
+    trader_position.subaccount,
+    trader_position.token,
+    trader_position.bias,
+    await convertToDecimal(trader_position.size, AMOUNT_DECIMALS),
+    await convertToDecimal(trader_position.sum_open, AMOUNT_DECIMALS),
+    await convertToDecimal(trader_position.sum_close, AMOUNT_DECIMALS),
+    await convertToDecimal(trader_position.limit_price, PRICE_DECIMALS),
+    await convertToDecimal(trader_position.exit_price, PRICE_DECIMALS),
+    await convertToSqlDate(trader_position.start_date),
+    trader_position.end_date === null
+      ? null
+      : await convertToSqlDate(trader_position.end_date),
+    await convertToDecimal(trader_position.funding, AMOUNT_DECIMALS),
+    await convertToDecimal(trader_position.realised_pnl, AMOUNT_DECIMALS),
+    await convertToDecimal(trader_position.gross_pnl, AMOUNT_DECIMALS),
+    await convertToDecimal(trader_position.fees, AMOUNT_DECIMALS),
+    await convertToDecimal(trader_position.net_pnl, AMOUNT_DECIMALS),
+    await convertToDecimal(trader_position.pnl, AMOUNT_DECIMALS),
+    trader_position.is_profitable,
+    trader_position.close_reason ?? null,
+    await getSqlDate(),
+    event,
+    trader_position.type,
+  ];
+}
+
+/**
+ * Converts a fill into a row of the fills table, tagged with the "fill" type.
+ * @param {FillInterface} fill - The fill to convert.
+ * @returns {Promise<any[]>} - The row of the fill.
+ */
+async function toFillRow(fill: FillInterface): Promise<any[]> {
+  return [
+    fill.fill_id,
+    fill.trade_id,
+    fill.user,
+    fill.trader_address,
+    fill.subaccount,
+    fill.token,
+    fill.order_id,
+    fill.side,
+    await convertToDecimal(fill.size, AMOUNT_DECIMALS),
+    await convertToDecimal(fill.price, PRICE_DECIMALS),
+    await convertToDecimal(fill.fee, AMOUNT_DECIMALS),
+    fill.liquidity,
+    fill.fill_type,
+    fill.block_height,
+    await convertToSqlDate(fill.created_at),
+    await getSqlDate(),
+    "fill",
+  ];
+}
+
+/**
+ * Converts a notification into a row of the notifications outbox, tagged with the
+ * "notification" type.
+ * @param {any} notification - The notification to convert, with its key, queue, payload and expiration.
+ * @returns {any[]} - The row of the notification.
+ */
+function toNotificationRow(notification: any): any[] {
+  return [
+    notification.dedup_key,
+    notification.queue,
+    JSON.stringify(notification.payload),
+    notification.expiration,
+    "notification",
+  ];
+}
+
+/**
+ * Gets the order intents recorded by the notification rows of a batch.
+ * @param {any[]} rows - The rows of the batch.
+ * @returns {OrderIntentInterface[]} - The order intents, in order.
+ */
+function getOrderIntents(rows: any[]): OrderIntentInterface[] {
+  return rows
+    .filter(
+      (row) =>
+        row[row.length - 1] === "notification" && row[1] === ORDER_INTENTS_QUEUE
+    )
+    .map((row) => JSON.parse(row[2]));
+}
+
 /**
  * Function to aggregate trading positions by pushing them to the processor queue.
  * @param {TradeInterface} trader_position - The trader position object to be aggregated.
+ * @param {TradeEventInterface | null} [event=null] - The event of the change, if it is notified.
+ */
+export async function aggregatePositions(
+  trader_position: TradeInterface,
+  event: TradeEventInterface | null = null
+) {
+  processorQueue.push({ trader_position, event });
+  // Replayed changes don't trigger alerts nor order intents again
+  if (!event || rowsHandler) return;
+
+  evaluateAlerts(event).forEach((alert) =>
+    aggregateNotification(
+      alert.dedup_key,
+      ALERTS_QUEUE,
+      alert,
+      ALERT_NOTIFICATION_DURATION
+    )
+  );
+  (await generateOrderIntents(event)).forEach((intent) =>
+    aggregateNotification(
+      intent.intent_id,
+      ORDER_INTENTS_QUEUE,
+      intent,
+      ORDER_INTENT_DURATION
+    )
+  );
+}
+
+/**
+ * Function to aggregate notifications (alerts, order intents...) by pushing them to the
+ * processor queue, so they are recorded in the outbox along with the trade that triggered them.
+ * @param {string} dedup_key - The unique key of the notification.
+ * @param {string} queue - The queue the notification is published to.
+ * @param {any} payload - The content of the notification.
+ * @param {number} expiration - The expiration of the notification.
+ */
+export async function aggregateNotification(
+  dedup_key: string,
+  queue: string,
+  payload: any,
+  expiration: number
+) {
+  processorQueue.push({
+    notification: { dedup_key, queue, payload, expiration },
+  });
+}
+
+/**
+ * Function to aggregate fills by pushing them to the processor queue.
+ * @param {FillInterface} fill - The fill object to be aggregated.
  */
-export async function aggregatePositions(trader_position: TradeInterface) {
-  processorQueue.push({ trader_position });
+export async function aggregateFill(fill: FillInterface) {
+  processorQueue.push({ fill });
+}
+
+/**
+ * Redirects the rows of the processor queue to a handler instead of buffering them for
+ * the database, or restores the write pipeline when the handler is null.
+ * @param {function | null} handler - The function receiving every row, in order.
+ */
+export function redirectRows(handler: ((row: any[]) => void) | null) {
+  rowsHandler = handler;
+}
+
+/**
+ * Waits until every task of the processor queue has been converted into a row.
+ */
+export async function waitForProcessor() {
+  if (!processorQueue.idle()) await processorQueue.drain();
+}
+
+/**
+ * Gets the trades with rows not written yet, once the processor queue has converted its
+ * tasks: the database is behind the tracker for them, e.g. still holding a trade as open
+ * while its close is pending.
+ * @returns {Promise<Set<string>>} - The ids of the trades.
+ */
+export async function getPendingTradeIds(): Promise<Set<string>> {
+  await waitForProcessor();
+  return new Set(
+    TO_PROCESS.filter(
+      (row) =>
+        row[row.length - 1] !== "fill" && row[row.length - 1] !== "notification"
+    ).map((row) => row[1])
+  );
+}
+
+/**
+ * Gets the traders with trades or fills not written yet, once the processor queue has
+ * converted its tasks.
+ * @returns {Promise<Set<string>>} - The ids (address/subaccount) of the traders.
+ */
+export async function getPendingTraders(): Promise<Set<string>> {
+  await waitForProcessor();
+  return new Set(
+    TO_PROCESS.filter((row) => row[row.length - 1] !== "notification").map(
+      (row) =>
+        row[row.length - 1] === "fill"
+          ? `${row[3]}/${row[4]}`
+          : `${row[2]}/${row[3]}`
+    )
+  );
+}
+
+/**
+ * Acknowledges the first rows of TO_PROCESS once they are committed (or dead-lettered),
+ * removing them from the buffer and the pending journal.
+ * @param {number} count - The number of rows to acknowledge.
+ */
+function acknowledgeRows(count: number) {
+  if (count === 0) return;
+  TO_PROCESS.splice(0, count);
+  rewriteJournal(PENDING_JOURNAL, TO_PROCESS);
+}
+
+/**
+ * Delays the next flush with exponential backoff after a failed batch.
+ * @param {any} error - The error raised by the failed batch.
+ */
+function scheduleRetry(error: any) {
+  console.log(
+    `Failed to write trades, retrying in ${retryDelay}ms: `,
+    error?.message || error
+  );
+  retryAt = Date.now() + retryDelay;
+  retryDelay = Math.min(retryDelay * 2, WRITE_MAX_RETRY_DELAY);
+}
+
+/**
+ * Writes the rows of a failed batch one by one to isolate the rows that can never be
+ * inserted, which are moved to the dead-letter journal. Stops at the first row failing
+ * for a transient reason, which is retried with the rest of the buffer later.
+ * @param {any[]} batch - The rows of the failed batch.
+ */
+async function isolateRows(batch: any[]) {
+  let acknowledged = 0;
+  const committed: any[] = [];
+  try {
+    for (const row of batch) {
+      try {
+        await processPositions([row]);
+        commitOrderIntents(getOrderIntents([row]));
+        committed.push(row);
+      } catch (error: any) {
+        if (!isPermanentSqlError(error)) {
+          scheduleRetry(error);
+          break;
+        }
+        console.log(`Moving trade ${row[1]} to dead letter: `, error.message);
+        discardOrderIntents(getOrderIntents([row]));
+        appendToJournal(DEAD_LETTER_JOURNAL, [
+          {
+            row,
+            code: error.code,
+            error: error.message,
+            failed_at: await getSqlDate(),
+          },
+        ]);
+      }
+      acknowledged++;
+    }
+  } finally {
+    acknowledgeRows(acknowledged);
+  }
+  await updateClosedTradesStats(committed);
+}
+
+/**
+ * Writes the buffered rows to the database in batches of WRITE_BATCH_SIZE. Rows are only
+ * acknowledged once committed: a failed batch stays buffered and is retried with backoff,
+ * and batches failing because of their data are split to dead-letter the faulty rows.
+ * The order intents of a committed batch advance the positions expected from the followers,
+ * and the stats of the users with trades closed in it are updated right after.
+ */
+export async function flushTrades() {
+  if (is_flushing) return;
+  is_flushing = true;
+  try {
+    while (TO_PROCESS.length > 0 && Date.now() >= retryAt) {
+      const batch = TO_PROCESS.slice(0, WRITE_BATCH_SIZE);
+      console.log("PROCESSING TRADES... ", batch.length);
+      try {
+        await processPositions(batch);
+        commitOrderIntents(getOrderIntents(batch));
+        acknowledgeRows(batch.length);
+        retryDelay = WRITE_RETRY_DELAY;
+        await updateClosedTradesStats(batch);
+      } catch (error) {
+        if (isPermanentSqlError(error)) await isolateRows(batch);
+        else scheduleRetry(error);
+      }
+    }
+    if (Date.now() >= retryAt) lastFlushAt = Date.now();
+  } finally {
+    is_flushing = false;
+  }
+}
+
+/**
+ * Writes every pending row before shutting down: waits for the processor queue to convert
+ * its tasks, then flushes the buffer until it is empty, waiting for the running flush or the
+ * backoff of a failed batch. Rows still unwritten at the deadline stay in the pending journal
+ * and are recovered on restart.
+ * @param {number} deadline - The date (in ms) to give up at.
+ * @returns {Promise<number>} - The number of rows left unwritten.
+ */
+export async function drainProcessor(deadline: number): Promise<number> {
+  await waitForProcessor();
+  while (TO_PROCESS.length > 0 && Date.now() < deadline) {
+    await flushTrades();
+    if (TO_PROCESS.length === 0) break;
+    const wait = Math.max(retryAt - Date.now(), WRITE_RETRY_DELAY);
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(wait, deadline - Date.now()))
+    );
+  }
+  return TO_PROCESS.length;
 }
 
 /**
- * Function to clear the processing queue by emptying the TO_PROCESS array.
+ * Gets the state of the write pipeline.
+ * @returns {ProcessorHealthInterface} - The depth of the processor queue, the rows pending to be
+ * written and the date of the last flush that left nothing to retry.
  */
-export async function clearQueue() {
-  TO_PROCESS = [];
+export function getProcessorHealth(): ProcessorHealthInterface {
+  return {
+    queue_depth: processorQueue.length(),
+    pending_rows: TO_PROCESS.length,
+    last_flush_at: lastFlushAt ? new Date(lastFlushAt).toISOString() : null,
+    seconds_since_last_flush: lastFlushAt
+      ? Math.round((Date.now() - lastFlushAt) / 1000)
+      : null,
+  };
 }
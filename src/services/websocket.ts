@@ -3,183 +3,578 @@ import {
   DYDX_SUBACCOUNTS_CHANNEL,
   DYDX_WEBSOCKET_URI,
   RECONNECT_INTERVAL,
+  WS_MAX_SUBSCRIPTIONS,
+  WS_POOL_SIZE,
 } from "../constants";
-import { DATA_TYPE, PING_INTERVAL, SUBSCRIPTION_TYPE } from "../constants/dydx";
-import { processSubscriptions, updatePosition } from "../utils/trading";
-import { TradeInterface } from "../constants/interfaces";
+import {
+  DATA_TYPE,
+  DEFAULT_SUBACCOUNT,
+  ERROR_TYPE,
+  PING_INTERVAL,
+  SUBSCRIPTION_TYPE,
+} from "../constants/dydx";
+import {
+  closeMissingPositions,
+  getOpenPositions,
+  processSubscriptions,
+  updatePosition,
+} from "../utils/trading";
+import { getTradeHeight } from "../utils/functions";
+import { getPendingTradeIds } from "./processor";
+import {
+  DydxChannelDataMessageInterface,
+  DydxSubscribedMessageInterface,
+  SocketHealthInterface,
+  TradeInterface,
+  TraderInterface,
+} from "../constants/interfaces";
+import {
+  backfillSubaccount,
+  getFillsHeight,
+  getLastProcessedHeight,
+  saveLastProcessedHeight,
+  takeResyncHeight,
+} from "../utils/backfill";
+import { incrementCounter } from "../utils/metrics";
+import { recordMessage } from "../utils/recorder";
+import { quarantineMessage } from "../utils/quarantine";
+import { validateMessage } from "../utils/validation";
 import async from "async";
 
 /**
- * Resets the heartbeat timer for WebSocket connection.
+ * State kept for every trader subscribed on a pooled connection.
+ */
+interface TraderSubscription {
+  id: string;
+  address: string;
+  subaccount: number;
+  user: number;
+  lastHeight: number | null;
+  TRADER_POSITIONS: Map<string, TradeInterface>;
+  messageQueue: async.QueueObject<any>;
+}
+
+/**
+ * A single WebSocket connection shared by many trader subscriptions.
+ */
+interface PooledSocket {
+  index: number;
+  websocket: WebSocket | null;
+  subscriptions: Map<string, TraderSubscription>;
+  heartbeatTimer: NodeJS.Timeout | null;
+  shouldReconnect: boolean;
+  lastMessageAt: number | null;
+}
+
+const SOCKET_POOL: PooledSocket[] = [];
+
+/**
+ * Resets the heartbeat timer for a pooled WebSocket connection.
  * Ensures reconnection if no ping or messages are received within the PING_INTERVAL.
- * @param {WebSocket} websocket - The WebSocket connection to reset the timer for.
- */
-let heartbeatTimer: NodeJS.Timeout;
-function resetHeartbeatTimer(websocket: WebSocket) {
-  clearTimeout(heartbeatTimer);
-  heartbeatTimer = setTimeout(() => {
-    console.log("No ping or messages received for 30 seconds, reconnecting...");
-    websocket.close(); // Close the existing connection to trigger the 'close' event handler, which should handle reconnection
+ * @param {PooledSocket} socket - The pooled connection to reset the timer for.
+ */
+function resetHeartbeatTimer(socket: PooledSocket) {
+  socket.lastMessageAt = Date.now();
+  if (socket.heartbeatTimer) clearTimeout(socket.heartbeatTimer);
+  socket.heartbeatTimer = setTimeout(() => {
+    console.log(
+      `No ping or messages received on socket ${socket.index} for 30 seconds, reconnecting...`
+    );
+    socket.websocket?.close(); // Close the existing connection to trigger the 'close' event handler, which should handle reconnection
   }, PING_INTERVAL);
 }
 
 /**
- * Initializes and manages a WebSocket connection to dYdX.
- * @param {string} address_ - The address to subscribe to.
- * @param {number} user_ - The user ID associated with the address.
+ * Sends a subscribe or unsubscribe request for a trader over an open connection.
+ * Requests for closed connections are skipped, the 'open' handler subscribes
+ * every registered trader once the connection is back.
+ * @param {PooledSocket} socket - The pooled connection to send the request on.
+ * @param {string} type - Either "subscribe" or "unsubscribe".
+ * @param {string} id - The subscription id (address/subaccount).
+ * @returns {boolean} - Whether the request was sent.
  */
-export async function initWebSocketTraderMemory(
-  address_: string,
-  user_: number
+function sendSubscription(
+  socket: PooledSocket,
+  type: string,
+  id: string
+): boolean {
+  if (!socket.websocket || socket.websocket.readyState !== WebSocket.OPEN)
+    return false;
+  socket.websocket.send(
+    JSON.stringify({ type, channel: DYDX_SUBACCOUNTS_CHANNEL, id })
+  );
+  return true;
+}
+
+/**
+ * Subscribes a trader on a pooled connection.
+ * @param {PooledSocket} socket - The pooled connection holding the trader.
+ * @param {TraderSubscription} subscription - The trader subscription.
+ */
+function subscribeTrader(
+  socket: PooledSocket,
+  subscription: TraderSubscription
 ) {
-  let intervalId: any = null;
-  let websocket: any = null;
-  let shouldReconnect = true; // Flag to control reconnection
+  if (!sendSubscription(socket, "subscribe", subscription.id)) return;
+  console.log(
+    `Subscribed to trader: ${subscription.id} (user ${subscription.user}) on socket ${socket.index}`
+  );
+}
 
-  /**
-   * Establishes a WebSocket connection and sets up event listeners.
-   * It handles connection initialization, message handling, errors,
-   * and reconnections.
-   */
-  function connect() {
-    websocket = new WebSocket(DYDX_WEBSOCKET_URI);
-    const channel = DYDX_SUBACCOUNTS_CHANNEL;
-    const address = address_;
-    const user = user_;
-    let TRADER_POSITIONS: Map<string, TradeInterface> = new Map();
+/**
+ * Drops and re-creates the subscription of a single trader, without
+ * affecting the rest of the traders sharing the connection.
+ * @param {PooledSocket} socket - The pooled connection holding the trader.
+ * @param {TraderSubscription} subscription - The trader subscription.
+ */
+function resubscribeTrader(
+  socket: PooledSocket,
+  subscription: TraderSubscription
+) {
+  sendSubscription(socket, "unsubscribe", subscription.id);
+  subscribeTrader(socket, subscription);
+}
 
-    /**
-     * Creates a queue object with concurrency 1.
-     * Ensures that messages are processed sequentially.
-     */
-    let messageQueue = async.queue(async (task: any, callback: any) => {
-      try {
-        // Parse the incoming message, assuming it's in JSON format.
-        const parsedMessage = JSON.parse(task.data.toString());
-        const account = parsedMessage.id?.split("/")[0];
-        const formattedMessage = JSON.stringify(parsedMessage, null, 4);
-
-        // Force reconnection if account is undefined
-        if (
-          parsedMessage.account === "undefined" ||
-          parsedMessage.account === null
-        ) {
-          console.error(
-            "Message for undefined account received, forcing reconnection."
-          );
-          websocket.close(); // Close the connection to trigger the 'close' event
-          return;
-        }
-
-        // TYPE 1 --> subscription
-        if (parsedMessage.type == SUBSCRIPTION_TYPE) {
-          await processSubscriptions(
-            user,
-            TRADER_POSITIONS,
-            account,
-            parsedMessage?.contents?.subaccount?.openPerpetualPositions
-          );
-          return callback();
-        }
-        // TYPE 2 --> data (some change on position)
-        if (parsedMessage.type == DATA_TYPE) {
-          await updatePosition(
-            user,
-            TRADER_POSITIONS,
+/**
+ * Records the block height processed for a trader, in memory and in the database,
+ * so the next backfill starts from it.
+ * @param {TraderSubscription} subscription - The trader subscription.
+ * @param {number} height - The block height processed.
+ */
+async function markProcessedHeight(
+  subscription: TraderSubscription,
+  height: number
+) {
+  if (!height) return;
+  if (subscription.lastHeight !== null && height <= subscription.lastHeight)
+    return;
+  subscription.lastHeight = height;
+  await saveLastProcessedHeight(subscription.id, height);
+}
+
+/**
+ * Restores the open positions of a trader from the database, so trades opened before
+ * a restart or a reconnection are continued instead of re-created. Positions in memory
+ * take precedence, as they may hold changes not written to the database yet, and trades
+ * with rows still pending in the processor (e.g. closed in memory) are not restored, as
+ * their stored state is stale.
+ * @param {TraderSubscription} subscription - The trader subscription.
+ */
+async function restoreTrader(subscription: TraderSubscription) {
+  try {
+    // Read before the trades, so rows written in between are never missed
+    const pending = await getPendingTradeIds();
+    const positions = await getOpenPositions(
+      subscription.address,
+      subscription.subaccount
+    );
+    positions.forEach((trader_position, symbol) => {
+      if (pending.has(trader_position.trade_id)) positions.delete(symbol);
+    });
+    subscription.TRADER_POSITIONS.forEach((trader_position, symbol) =>
+      positions.set(symbol, trader_position)
+    );
+    subscription.TRADER_POSITIONS = positions;
+  } catch (error) {
+    console.error(`Error restoring positions of ${subscription.id}:`, error);
+  }
+}
+
+/**
+ * Backfills the trades of a trader missed since its last processed block height,
+ * before the subscription snapshot is applied. A requested resync backfills from its
+ * height instead. Failures are logged and the gap is retried on the next subscription.
+ * @param {TraderSubscription} subscription - The trader subscription.
+ */
+async function backfillTrader(subscription: TraderSubscription) {
+  try {
+    const resyncHeight = await takeResyncHeight(subscription.id);
+    if (resyncHeight !== null) {
+      console.log(
+        `Resyncing trader ${subscription.id} from block ${resyncHeight}`
+      );
+      subscription.lastHeight = resyncHeight;
+    }
+    if (subscription.lastHeight === null) {
+      subscription.lastHeight = await getLastProcessedHeight(subscription.id);
+    }
+    // Without a stored height, fill the gap since the oldest restored trade
+    if (subscription.lastHeight === null) {
+      const heights = Array.from(subscription.TRADER_POSITIONS.values())
+        .map((trader_position) => getTradeHeight(trader_position.trade_id))
+        .filter((height) => !isNaN(height));
+      if (heights.length === 0) return; // Never processed, nothing to fill
+      subscription.lastHeight = Math.min(...heights);
+    }
+
+    const height = await backfillSubaccount(
+      subscription.user,
+      subscription.TRADER_POSITIONS,
+      subscription.address,
+      subscription.subaccount,
+      subscription.lastHeight
+    );
+    await markProcessedHeight(subscription, height);
+  } catch (error) {
+    console.error(`Error backfilling trader ${subscription.id}:`, error);
+  }
+}
+
+/**
+ * Creates the queue that processes the messages of a single trader.
+ * Ensures that messages of a trader are processed sequentially.
+ * @param {PooledSocket} socket - The pooled connection holding the trader.
+ * @param {TraderSubscription} subscription - The trader subscription.
+ */
+function createMessageQueue(
+  socket: PooledSocket,
+  subscription: TraderSubscription
+) {
+  return async.queue(async (task: any, callback: any) => {
+    try {
+      const parsedMessage = task.message;
+      const account = parsedMessage.id?.split("/")[0];
+      recordMessage(subscription.id, parsedMessage);
+
+      // Force resubscription if account is undefined
+      if (
+        parsedMessage.account === "undefined" ||
+        parsedMessage.account === null
+      ) {
+        console.error(
+          "Message for undefined account received, forcing resubscription."
+        );
+        resubscribeTrader(socket, subscription);
+        return callback();
+      }
+
+      // Malformed messages are quarantined instead of being processed
+      const reason = validateMessage(parsedMessage);
+      if (reason) {
+        await quarantineMessage(subscription.id, parsedMessage, reason);
+        return callback();
+      }
+
+      // TYPE 1 --> subscription
+      if (parsedMessage.type == SUBSCRIPTION_TYPE) {
+        const message = parsedMessage as DydxSubscribedMessageInterface;
+        const positions = message.contents.subaccount?.openPerpetualPositions;
+        await restoreTrader(subscription);
+        await backfillTrader(subscription);
+        await processSubscriptions(
+          subscription.user,
+          subscription.TRADER_POSITIONS,
+          account,
+          subscription.subaccount,
+          positions
+        );
+        if (positions)
+          await closeMissingPositions(
+            subscription.user,
+            subscription.TRADER_POSITIONS,
             account,
-            parsedMessage?.contents?.perpetualPositions,
-            parsedMessage?.contents?.fills
+            subscription.subaccount,
+            positions
           );
-          return callback();
-        }
-      } catch (error) {
-        // Log any errors that occur during message processing.
-        console.error("Error processing incoming WebSocket message:", error);
-        setTimeout(connect, RECONNECT_INTERVAL);
+        await markProcessedHeight(
+          subscription,
+          Number(message.contents.blockHeight)
+        );
+        return callback();
       }
-      callback(); // Indicate that the task has completed
-    }, 1);
+      // TYPE 2 --> data (some change on position)
+      if (parsedMessage.type == DATA_TYPE) {
+        const message = parsedMessage as DydxChannelDataMessageInterface;
+        const height = getFillsHeight(message.contents.fills ?? []);
+        // Skip changes already replayed by the backfill
+        if (
+          height &&
+          subscription.lastHeight !== null &&
+          height < subscription.lastHeight
+        )
+          return callback();
 
-    /**
-     * Handles the WebSocket 'open' event by subscribing active traders to the dYdX subaccounts channel.
-     * Once the WebSocket connection to the dYdX server is established, this handler fetches a list of
-     * active traders from the database. It then constructs a subscription message for each trader and
-     * sends it over the WebSocket connection.
-     */
-    websocket.on("open", async () => {
-      console.log("Connected to the dYdX server.");
-      try {
-        const subscriptionMessage = {
-          type: "subscribe",
-          channel: channel,
-          id: `${address}/0`, // Assumed subscription ID format
-        };
-        websocket.send(JSON.stringify(subscriptionMessage));
-        resetHeartbeatTimer(websocket);
-        console.log(`Subscribed to trader: ${address} (user ${user})`);
-      } catch (error) {
-        console.error("Failed to subscribe traders to dYdX updates:", error);
+        await updatePosition(
+          subscription.user,
+          subscription.TRADER_POSITIONS,
+          account,
+          subscription.subaccount,
+          message.contents.perpetualPositions,
+          message.contents.fills
+        );
+        await markProcessedHeight(subscription, height);
+        return callback();
       }
-    });
+    } catch (error) {
+      // Log any errors that occur during message processing.
+      console.error("Error processing incoming WebSocket message:", error);
+      setTimeout(
+        () => resubscribeTrader(socket, subscription),
+        RECONNECT_INTERVAL
+      );
+    }
+    callback(); // Indicate that the task has completed
+  }, 1);
+}
 
-    /**
-     * Handles incoming WebSocket messages from the dYdX server.
-     * This event listener is triggered whenever a new message is received over the WebSocket connection.
-     * It assumes that the incoming message is in JSON format and contains information about transfers
-     * related to a trader's subaccount.
-     */
-    websocket.on("message", async (data: any) => {
-      messageQueue.push({ data }, (err) => {
-        if (err) {
-          console.error("Failed to process message", err);
-        }
-      });
-    });
+/**
+ * Establishes the WebSocket connection of a pooled socket and sets up event listeners.
+ * It handles connection initialization, routing of messages to the subscribed
+ * traders, errors and reconnections.
+ * @param {PooledSocket} socket - The pooled connection to connect.
+ */
+function connect(socket: PooledSocket) {
+  const websocket = new WebSocket(DYDX_WEBSOCKET_URI);
+  socket.websocket = websocket;
 
-    /**
-     * WebSocket Event Handler: 'error'
-     * This handler is activated upon encountering an error with the WebSocket connection.
-     * @param {Error} error - The error object representing the issue encountered.
-     */
-    websocket.on("error", (error: any) => {
-      console.log("Failed to connect properly, received error:", error);
-      setTimeout(connect, RECONNECT_INTERVAL);
-    });
+  /**
+   * Handles the WebSocket 'open' event by subscribing every trader assigned to this
+   * connection to the dYdX subaccounts channel.
+   */
+  websocket.on("open", () => {
+    console.log(`Connected to the dYdX server (socket ${socket.index}).`);
+    try {
+      socket.subscriptions.forEach((subscription) =>
+        subscribeTrader(socket, subscription)
+      );
+      resetHeartbeatTimer(socket);
+    } catch (error) {
+      console.error("Failed to subscribe traders to dYdX updates:", error);
+    }
+  });
 
-    /**
-     * WebSocket Event Handler: 'close'
-     * This handler is triggered when the WebSocket connection is closed by the server.
-     */
-    websocket.on("close", (code: any, reason: any) => {
-      console.log(
-        `WebSocket closed ${address}. Code: ${code}, Reason: ${reason}`
+  /**
+   * Handles incoming WebSocket messages from the dYdX server.
+   * Every message is routed by its subscription id to the queue of the
+   * trader it belongs to.
+   */
+  websocket.on("message", (data: any) => {
+    resetHeartbeatTimer(socket);
+    let parsedMessage: any;
+    try {
+      parsedMessage = JSON.parse(data.toString());
+    } catch (error) {
+      quarantineMessage(
+        `socket ${socket.index}`,
+        data.toString(),
+        "invalid JSON"
+      ).catch((error) =>
+        console.error("Failed to quarantine WebSocket message:", error)
+      );
+      return;
+    }
+
+    if (parsedMessage.type == ERROR_TYPE) {
+      console.error(
+        `Error received on socket ${socket.index}:`,
+        parsedMessage.message
       );
-      if (shouldReconnect) {
-        console.log("Attempting to reconnect...");
-        setTimeout(connect, RECONNECT_INTERVAL);
-      } else {
-        console.log("Disconnection was intentional, not reconnecting.");
+      return;
+    }
+
+    const subscription = socket.subscriptions.get(parsedMessage.id);
+    if (!subscription) return;
+    subscription.messageQueue.push({ message: parsedMessage }, (err) => {
+      if (err) {
+        console.error("Failed to process message", err);
       }
     });
+  });
 
-    websocket.on("ping", () => {
-      // console.log("PING RECEIVED! ", address);
-      resetHeartbeatTimer(websocket);
-    });
+  /**
+   * WebSocket Event Handler: 'error'
+   * This handler is activated upon encountering an error with the WebSocket connection.
+   * The 'close' event that follows handles the reconnection.
+   * @param {Error} error - The error object representing the issue encountered.
+   */
+  websocket.on("error", (error: any) => {
+    console.log("Failed to connect properly, received error:", error);
+  });
+
+  /**
+   * WebSocket Event Handler: 'close'
+   * This handler is triggered when the WebSocket connection is closed by the server.
+   */
+  websocket.on("close", (code: any, reason: any) => {
+    console.log(
+      `WebSocket ${socket.index} closed. Code: ${code}, Reason: ${reason}`
+    );
+    if (socket.heartbeatTimer) clearTimeout(socket.heartbeatTimer);
+    if (socket.websocket !== websocket) return; // Already replaced
+    if (socket.shouldReconnect) {
+      console.log("Attempting to reconnect...");
+      incrementCounter("dydx_websocket_reconnects_total", {
+        socket: socket.index,
+      });
+      setTimeout(() => {
+        if (socket.shouldReconnect) connect(socket);
+      }, RECONNECT_INTERVAL);
+    } else {
+      console.log("Disconnection was intentional, not reconnecting.");
+    }
+  });
+
+  websocket.on("ping", () => {
+    resetHeartbeatTimer(socket);
+  });
+}
+
+/**
+ * Picks the pooled connection a new trader should be assigned to.
+ * Connections are filled up to WS_MAX_SUBSCRIPTIONS before a new one is
+ * opened, and no more than WS_POOL_SIZE connections are ever opened.
+ * @returns {PooledSocket} - The pooled connection with room for the trader.
+ * @throws {Error} - Throws an error if every connection of the pool is full.
+ */
+function acquireSocket(): PooledSocket {
+  const available = SOCKET_POOL.find(
+    (socket) => socket.subscriptions.size < WS_MAX_SUBSCRIPTIONS
+  );
+  if (available) return available;
+
+  if (SOCKET_POOL.length >= WS_POOL_SIZE) {
+    throw new Error(
+      `WebSocket pool exhausted (${WS_POOL_SIZE} sockets x ${WS_MAX_SUBSCRIPTIONS} subscriptions)`
+    );
   }
 
-  connect();
+  const socket: PooledSocket = {
+    index: SOCKET_POOL.reduce((max, s) => Math.max(max, s.index + 1), 0),
+    websocket: null,
+    subscriptions: new Map(),
+    heartbeatTimer: null,
+    shouldReconnect: true,
+    lastMessageAt: null,
+  };
+  SOCKET_POOL.push(socket);
+  connect(socket);
+  return socket;
+}
+
+/**
+ * Closes a pooled connection once it holds no more subscriptions.
+ * @param {PooledSocket} socket - The pooled connection to release.
+ */
+function releaseSocket(socket: PooledSocket) {
+  if (socket.subscriptions.size > 0) return;
+  socket.shouldReconnect = false; // Prevent reconnection
+  if (socket.heartbeatTimer) clearTimeout(socket.heartbeatTimer);
+  SOCKET_POOL.splice(SOCKET_POOL.indexOf(socket), 1);
+  if (socket.websocket) {
+    socket.websocket.close(); // Close the WebSocket
+    console.log(`Closed WebSocket connection ${socket.index}`);
+  }
+}
+
+/**
+ * Gets the open positions held in memory for the subscribed traders.
+ * @param {string} [address] - Only return the positions of this trader address.
+ * @param {number} [subaccount] - Only return the positions of this subaccount.
+ * @returns {TradeInterface[]} - The open positions of the matching traders.
+ */
+export function getTraderPositions(
+  address?: string,
+  subaccount?: number
+): TradeInterface[] {
+  const positions: TradeInterface[] = [];
+  for (const socket of SOCKET_POOL) {
+    for (const subscription of socket.subscriptions.values()) {
+      if (address !== undefined && subscription.address !== address) continue;
+      if (subaccount !== undefined && subscription.subaccount !== subaccount)
+        continue;
+      positions.push(...subscription.TRADER_POSITIONS.values());
+    }
+  }
+  return positions;
+}
+
+/**
+ * Gets the trader subaccounts subscribed on the pooled connections.
+ * @returns {TraderInterface[]} - The subscribed traders, with their number of open positions.
+ */
+export function getSubscribedTraders(): TraderInterface[] {
+  const traders: TraderInterface[] = [];
+  for (const socket of SOCKET_POOL) {
+    for (const subscription of socket.subscriptions.values()) {
+      traders.push({
+        id: subscription.id,
+        user: subscription.user,
+        address: subscription.address,
+        subaccount: subscription.subaccount,
+        last_height: subscription.lastHeight,
+        open_positions: subscription.TRADER_POSITIONS.size,
+      });
+    }
+  }
+  return traders;
+}
+
+/**
+ * Gets the state of the pooled connections and of the traders subscribed on them.
+ * @returns {SocketHealthInterface[]} - The state of every pooled connection.
+ */
+export function getSocketsHealth(): SocketHealthInterface[] {
+  const states = ["connecting", "open", "closing", "closed"];
+  return SOCKET_POOL.map((socket) => ({
+    index: socket.index,
+    state: socket.websocket ? states[socket.websocket.readyState] : "closed",
+    last_message_at: socket.lastMessageAt
+      ? new Date(socket.lastMessageAt).toISOString()
+      : null,
+    seconds_since_last_message: socket.lastMessageAt
+      ? Math.round((Date.now() - socket.lastMessageAt) / 1000)
+      : null,
+    traders: Array.from(socket.subscriptions.values()).map((subscription) => ({
+      id: subscription.id,
+      user: subscription.user,
+      last_height: subscription.lastHeight,
+      open_positions: subscription.TRADER_POSITIONS.size,
+      queue_depth: subscription.messageQueue.length(),
+    })),
+  }));
+}
 
-  // Methods to manage the WebSocket connection
+/**
+ * Subscribes a trader subaccount to dYdX updates on a shared pooled connection.
+ * @param {string} address_ - The address to subscribe to.
+ * @param {number} user_ - The user ID associated with the address.
+ * @param {number} subaccount_ - The subaccount number of the address to subscribe to.
+ */
+export async function initWebSocketTraderMemory(
+  address_: string,
+  user_: number,
+  subaccount_: number = DEFAULT_SUBACCOUNT
+) {
+  const socket = acquireSocket();
+  const subscription = {
+    id: `${address_}/${subaccount_}`,
+    address: address_,
+    subaccount: subaccount_,
+    user: user_,
+    lastHeight: null,
+    TRADER_POSITIONS: new Map(),
+  } as TraderSubscription;
+  subscription.messageQueue = createMessageQueue(socket, subscription);
+  socket.subscriptions.set(subscription.id, subscription);
+  subscribeTrader(socket, subscription);
+
+  // Methods to manage the trader subscription
   return {
-    closeConnection: async function () {
-      clearInterval(intervalId); // Clear the interval
-      clearInterval(heartbeatTimer);
-      shouldReconnect = false; // Prevent reconnection
-      if (websocket) {
-        websocket.close(); // Close the WebSocket
-        console.log(`Closed WebSocket connection for ${address_}`);
+    /**
+     * Unsubscribes the trader, dropping its queued messages unless drained.
+     * @param {boolean} [drain=false] - Whether to process the queued messages first (on shutdown).
+     */
+    closeConnection: async function (drain: boolean = false) {
+      if (!socket.subscriptions.delete(subscription.id)) return;
+      sendSubscription(socket, "unsubscribe", subscription.id);
+      if (drain && !subscription.messageQueue.idle()) {
+        await subscription.messageQueue.drain();
       }
+      subscription.messageQueue.kill();
+      console.log(
+        `Unsubscribed trader ${subscription.id} from socket ${socket.index}`
+      );
+      releaseSocket(socket);
     },
   };
 }
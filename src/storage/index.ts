@@ -0,0 +1,36 @@
+import { connectDatabase } from "../config/database";
+import { StorageDriverInterface } from "../constants/interfaces";
+import { createStatsRepository } from "./stats";
+import { createTokensRepository } from "./tokens";
+import { createTradersRepository } from "./traders";
+import { createTradesRepository } from "./trades";
+
+/**
+ * Creates the repositories of the tracker on a storage client.
+ * @param {StorageDriverInterface} driver - The storage client.
+ * @returns {Object} - The repositories of the traders, tokens, trades and stats.
+ */
+export function createStorage(driver: StorageDriverInterface) {
+  return {
+    traders: createTradersRepository(driver),
+    tokens: createTokensRepository(driver),
+    trades: createTradesRepository(driver),
+    stats: createStatsRepository(driver),
+  };
+}
+
+let storage: ReturnType<typeof createStorage> | null = null;
+let storageDriver: StorageDriverInterface | null = null;
+
+/**
+ * Gets the repositories on the storage client selected by DB_CLIENT, created on first use.
+ * @returns {Object} - The repositories of the traders, tokens, trades and stats.
+ */
+export function getStorage() {
+  const driver = connectDatabase();
+  if (!storage || storageDriver !== driver) {
+    storage = createStorage(driver);
+    storageDriver = driver;
+  }
+  return storage;
+}
@@ -0,0 +1,174 @@
+import fs from "fs";
+import path from "path";
+import { MIGRATIONS_DIR } from "../constants";
+import {
+  MigrationInterface,
+  SqlConnectionInterface,
+  StorageDriverInterface,
+} from "../constants/interfaces";
+import { SQL_SCHEMA_MIGRATIONS } from "../constants/tables";
+
+// Name of the migration files: <version>_<name>.sql
+const MIGRATION_FILE = /^(\d+)_(\w+)\.sql$/;
+
+/**
+ * Splits the SQL of a migration into its statements, separated by semicolons, without
+ * the comments (the migrations can't have semicolons or `--` in their string literals).
+ * @param {string} sql - The SQL of the migration.
+ * @returns {string[]} - The statements.
+ */
+export function splitStatements(sql: string): string[] {
+  return sql
+    .replace(/--.*$/gm, "")
+    .split(";")
+    .map((statement) => statement.trim())
+    .filter((statement) => statement.length > 0);
+}
+
+/**
+ * Reads the migrations of a storage client from its directory in MIGRATIONS_DIR.
+ * @param {string} client - The storage client (mysql, postgres or sqlite).
+ * @returns {MigrationInterface[]} - The migrations, by version.
+ * @throws {Error} Throws an error if two migrations have the same version.
+ */
+export function loadMigrations(client: string): MigrationInterface[] {
+  const dir = path.join(MIGRATIONS_DIR, client);
+  const migrations = fs
+    .readdirSync(dir)
+    .map((file) => ({ file, match: file.match(MIGRATION_FILE) }))
+    .filter(({ match }) => match !== null)
+    .map(({ file, match }) => ({
+      version: parseInt(match![1], 10),
+      name: match![2],
+      file: path.join(dir, file),
+    }))
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migrations[i - 1].version === migration.version)
+      throw new Error(`Duplicate migration version ${migration.version}`);
+  });
+  return migrations;
+}
+
+/**
+ * Creates the table of the applied migrations, if needed.
+ * @param {StorageDriverInterface} driver - The storage client.
+ */
+async function createMigrationsTable(driver: StorageDriverInterface) {
+  await driver.query(
+    `CREATE TABLE IF NOT EXISTS ${SQL_SCHEMA_MIGRATIONS} (
+      version integer NOT NULL PRIMARY KEY,
+      name varchar(255) NOT NULL,
+      applied_at ${driver.dialect.datetimeType} NOT NULL
+    )`
+  );
+}
+
+/**
+ * Records a migration as applied.
+ * @param {SqlConnectionInterface} connection - The connection to record it on.
+ * @param {StorageDriverInterface} driver - The storage client.
+ * @param {MigrationInterface} migration - The migration.
+ */
+async function recordMigration(
+  connection: SqlConnectionInterface,
+  driver: StorageDriverInterface,
+  migration: MigrationInterface
+) {
+  await connection.query(
+    `INSERT INTO ${SQL_SCHEMA_MIGRATIONS} (version, name, applied_at) VALUES (?, ?, ${driver.dialect.now})`,
+    [migration.version, migration.name]
+  );
+}
+
+/**
+ * Gets the migrations of the storage client not applied to the database yet.
+ * @param {StorageDriverInterface} driver - The storage client.
+ * @returns {Promise<MigrationInterface[]>} - The pending migrations, by version.
+ */
+export async function getPendingMigrations(
+  driver: StorageDriverInterface
+): Promise<MigrationInterface[]> {
+  await createMigrationsTable(driver);
+  const { rows } = await driver.query(
+    `SELECT version FROM ${SQL_SCHEMA_MIGRATIONS}`
+  );
+  const applied = new Set(rows.map((row: any) => Number(row.version)));
+  return loadMigrations(driver.client).filter(
+    (migration) => !applied.has(migration.version)
+  );
+}
+
+/**
+ * Applies the pending migrations, in order. Every migration is applied and recorded in a
+ * single transaction, so a failed migration is retried as a whole, except on MySQL where
+ * the changes of the schema are committed right away.
+ *
+ * @param {StorageDriverInterface} driver - The storage client.
+ * @returns {Promise<MigrationInterface[]>} - The migrations applied.
+ * @throws {Error} Throws an error if a migration fails, the following ones being left pending.
+ */
+export async function migrate(
+  driver: StorageDriverInterface
+): Promise<MigrationInterface[]> {
+  const pending = await getPendingMigrations(driver);
+  for (const migration of pending) {
+    console.log(`Applying migration ${migration.version}_${migration.name}`);
+    const statements = splitStatements(fs.readFileSync(migration.file, "utf8"));
+    try {
+      await driver.transaction(async (connection) => {
+        for (const statement of statements) {
+          await connection.query(statement);
+        }
+        await recordMigration(connection, driver, migration);
+      });
+    } catch (error) {
+      console.error(
+        `Error applying migration ${migration.version}_${migration.name}:`,
+        error
+      );
+      throw error;
+    }
+  }
+  return pending;
+}
+
+/**
+ * Records the migrations up to a version as applied without running them, for databases
+ * whose schema was created or changed by hand before the migrations were tracked.
+ *
+ * @param {StorageDriverInterface} driver - The storage client.
+ * @param {number} version - The last version already matching the schema.
+ * @returns {Promise<MigrationInterface[]>} - The migrations recorded.
+ */
+export async function baselineMigrations(
+  driver: StorageDriverInterface,
+  version: number
+): Promise<MigrationInterface[]> {
+  const pending = (await getPendingMigrations(driver)).filter(
+    (migration) => migration.version <= version
+  );
+  for (const migration of pending) {
+    await recordMigration(driver, driver, migration);
+  }
+  return pending;
+}
+
+/**
+ * Checks that every migration of the storage client was applied to the database, so the
+ * tables match what the code queries.
+ *
+ * @param {StorageDriverInterface} driver - The storage client.
+ * @throws {Error} Throws an error listing the pending migrations if the schema is behind the code.
+ */
+export async function checkSchema(driver: StorageDriverInterface) {
+  const pending = await getPendingMigrations(driver);
+  if (pending.length > 0) {
+    throw new Error(
+      `Database schema is behind the code, pending migrations: ${pending
+        .map((migration) => `${migration.version}_${migration.name}`)
+        .join(", ")}. Run \`npm run migrate\` to apply them.`
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import mysql from "mysql2/promise";
+import {
+  DatabaseConfigInterface,
+  QueryResultInterface,
+  SqlDialectInterface,
+  StorageDriverInterface,
+} from "../constants/interfaces";
+
+// Error codes raised by rows that will fail whatever the number of retries
+const PERMANENT_ERROR_CODES = [
+  "ER_TRUNCATED_WRONG_VALUE",
+  "ER_TRUNCATED_WRONG_VALUE_FOR_FIELD",
+  "ER_WRONG_VALUE_COUNT_ON_ROW",
+];
+
+export const MYSQL_DIALECT: SqlDialectInterface = {
+  quote: (identifier) => `\`${identifier}\``,
+  datetimeType: "datetime",
+  now: "NOW()",
+  secondsFromNow: "DATE_ADD(NOW(), INTERVAL ? SECOND)",
+  isoDate: (column) => `DATE_FORMAT(${column}, '%Y-%m-%dT%H:%i:%sZ')`,
+  secondsBetween: (from, to) => `TIMESTAMPDIFF(SECOND, ${from}, ${to})`,
+  greatest: (a, b) => `GREATEST(${a}, ${b})`,
+  excluded: (column) => `VALUES(${column})`,
+  // Without columns to update, the row is left as is, like INSERT IGNORE
+  onConflict: (keys, updates) =>
+    `ON DUPLICATE KEY UPDATE ${
+      Object.keys(updates).length > 0
+        ? Object.entries(updates)
+            .map(([column, value]) => `${column} = ${value}`)
+            .join(", ")
+        : `${keys[0]} = ${keys[0]}`
+    }`,
+  returningId: "",
+};
+
+/**
+ * Converts the result of a mysql2 query: an array of rows for reads, a result header for writes.
+ * @param {any} result - The result of the query.
+ * @returns {QueryResultInterface} - The rows, number of rows written and id inserted.
+ */
+function toQueryResult(result: any): QueryResultInterface {
+  if (Array.isArray(result)) {
+    return { rows: result, affectedRows: 0, insertId: null };
+  }
+  return {
+    rows: [],
+    affectedRows: result.affectedRows,
+    insertId: result.insertId || null,
+  };
+}
+
+/**
+ * Creates the MySQL client, on a pool of connections.
+ * @param {DatabaseConfigInterface} config - The connection settings of the server.
+ * @returns {StorageDriverInterface} - The client.
+ */
+export function createMysqlDriver(
+  config: DatabaseConfigInterface
+): StorageDriverInterface {
+  const pool = mysql.createPool({
+    ...config,
+    connectionLimit: 10,
+    charset: "utf8mb4",
+  });
+
+  let activeConnections = 0;
+  pool.on("acquire", function (connection) {
+    activeConnections++;
+    console.log(
+      `Connection ${connection.threadId} acquired. Total active: ${activeConnections}`
+    );
+  });
+
+  pool.on("release", function (connection) {
+    activeConnections--;
+    console.log(
+      `Connection ${connection.threadId} released. Total active: ${activeConnections}`
+    );
+  });
+
+  return {
+    client: "mysql",
+    dialect: MYSQL_DIALECT,
+
+    async query(sql, values) {
+      const [result] = await pool.query(sql, values);
+      return toQueryResult(result);
+    },
+
+    async transaction(run) {
+      const connection = await pool.getConnection();
+      try {
+        await connection.beginTransaction();
+        await run({
+          async query(sql, values) {
+            const [result] = await connection.query(sql, values);
+            return toQueryResult(result);
+          },
+        });
+        await connection.commit();
+      } catch (error) {
+        await connection.rollback().catch((rollbackError) => {
+          console.error("Failed to rollback transaction:", rollbackError);
+        });
+        throw error;
+      } finally {
+        connection.release();
+      }
+    },
+
+    isDeadlock: (error) => error?.code === "ER_LOCK_DEADLOCK",
+
+    isPermanentError(error) {
+      const sqlState = error?.sqlState?.toString() || "";
+      return (
+        sqlState.startsWith("22") || // Data exception
+        sqlState.startsWith("23") || // Integrity constraint violation
+        PERMANENT_ERROR_CODES.includes(error?.code)
+      );
+    },
+
+    getActiveConnections: () => activeConnections,
+
+    close: () => pool.end(),
+  };
+}
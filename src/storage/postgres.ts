@@ -0,0 +1,133 @@
+import { Pool, QueryResult } from "pg";
+import {
+  DatabaseConfigInterface,
+  QueryResultInterface,
+  SqlDialectInterface,
+  StorageDriverInterface,
+} from "../constants/interfaces";
+import { normalizeValues } from "./sql";
+
+export const POSTGRES_DIALECT: SqlDialectInterface = {
+  quote: (identifier) => `"${identifier}"`,
+  datetimeType: "timestamp",
+  now: "LOCALTIMESTAMP",
+  secondsFromNow: "LOCALTIMESTAMP + CAST(? AS INTEGER) * INTERVAL '1 second'",
+  isoDate: (column) => `to_char(${column}, 'YYYY-MM-DD"T"HH24:MI:SS"Z"')`,
+  secondsBetween: (from, to) =>
+    `CAST(EXTRACT(EPOCH FROM (${to} - ${from})) AS INTEGER)`,
+  greatest: (a, b) => `GREATEST(${a}, ${b})`,
+  excluded: (column) => `excluded.${column}`,
+  onConflict: (keys, updates) =>
+    Object.keys(updates).length > 0
+      ? `ON CONFLICT (${keys.join(", ")}) DO UPDATE SET ${Object.entries(
+          updates
+        )
+          .map(([column, value]) => `${column} = ${value}`)
+          .join(", ")}`
+      : `ON CONFLICT (${keys.join(", ")}) DO NOTHING`,
+  returningId: " RETURNING id",
+};
+
+/**
+ * Numbers the `?` placeholders of a query as expected by PostgreSQL ($1, $2...), leaving
+ * the question marks of the string literals untouched.
+ * @param {string} sql - The query with `?` placeholders.
+ * @returns {string} - The query with numbered placeholders.
+ */
+function numberPlaceholders(sql: string): string {
+  let index = 0;
+  let quoted = false;
+  let result = "";
+  for (const char of sql) {
+    if (char === "'") quoted = !quoted;
+    result += char === "?" && !quoted ? `$${++index}` : char;
+  }
+  return result;
+}
+
+/**
+ * Converts the result of a pg query, the id inserted being returned by `RETURNING id`.
+ * @param {QueryResult} result - The result of the query.
+ * @returns {QueryResultInterface} - The rows, number of rows written and id inserted.
+ */
+function toQueryResult(result: QueryResult): QueryResultInterface {
+  return {
+    rows: result.rows,
+    affectedRows: result.rowCount ?? 0,
+    insertId:
+      result.command === "INSERT" && result.rows[0]?.id !== undefined
+        ? Number(result.rows[0].id)
+        : null,
+  };
+}
+
+/**
+ * Creates the PostgreSQL client, on a pool of connections. Sessions run in UTC, like the
+ * dates written by the tracker.
+ * @param {DatabaseConfigInterface} config - The connection settings of the server.
+ * @returns {StorageDriverInterface} - The client.
+ */
+export function createPostgresDriver(
+  config: DatabaseConfigInterface
+): StorageDriverInterface {
+  const pool = new Pool({
+    ...config,
+    max: 10,
+    options: "-c timezone=UTC",
+  });
+
+  pool.on("error", (error) => {
+    console.error("Idle PostgreSQL connection error:", error);
+  });
+
+  return {
+    client: "postgres",
+    dialect: POSTGRES_DIALECT,
+
+    async query(sql, values) {
+      return toQueryResult(
+        await pool.query(numberPlaceholders(sql), normalizeValues(values))
+      );
+    },
+
+    async transaction(run) {
+      const connection = await pool.connect();
+      try {
+        await connection.query("BEGIN");
+        await run({
+          async query(sql, values) {
+            return toQueryResult(
+              await connection.query(
+                numberPlaceholders(sql),
+                normalizeValues(values)
+              )
+            );
+          },
+        });
+        await connection.query("COMMIT");
+      } catch (error) {
+        await connection.query("ROLLBACK").catch((rollbackError) => {
+          console.error("Failed to rollback transaction:", rollbackError);
+        });
+        throw error;
+      } finally {
+        connection.release();
+      }
+    },
+
+    isDeadlock: (error) => error?.code === "40P01",
+
+    isPermanentError(error) {
+      const code = error?.code?.toString() || "";
+      return (
+        code.startsWith("21") || // Cardinality violation
+        code.startsWith("22") || // Data exception
+        code.startsWith("23") // Integrity constraint violation
+      );
+    },
+
+    getActiveConnections: () => pool.totalCount - pool.idleCount,
+
+    close: () => pool.end(),
+  };
+}
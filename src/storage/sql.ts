@@ -0,0 +1,85 @@
+import { DB_MAX_RETRIES, DB_RETRY_DELAY } from "../constants";
+import {
+  SqlConnectionInterface,
+  StorageDriverInterface,
+} from "../constants/interfaces";
+
+// Utility function to pause execution for a given duration
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Builds the placeholders of a multi-row insert, one group per row: `(?, ?), (?, ?)`.
+ *
+ * @param {any[][]} rows - The rows of values to insert.
+ * @returns {string} - The placeholders of the VALUES clause.
+ */
+export function placeholders(rows: any[][]): string {
+  return rows.map((row) => `(${row.map(() => "?").join(", ")})`).join(", ");
+}
+
+/**
+ * Keeps the last row of every key, as a multi-row upsert can't write the same row twice
+ * (PostgreSQL rejects it with a cardinality violation). The rows of a batch being in the
+ * order of the changes, the last row of a key holds its latest state.
+ *
+ * @param {any[][]} rows - The rows of values to insert.
+ * @param {number} keyIndex - The index of the unique key in every row.
+ * @returns {any[][]} - The rows, one per key, in the order of their last change.
+ */
+export function lastRowPerKey(rows: any[][], keyIndex: number): any[][] {
+  const last = new Map<any, any[]>();
+  rows.forEach((row) => {
+    last.delete(row[keyIndex]);
+    last.set(row[keyIndex], row);
+  });
+  return Array.from(last.values());
+}
+
+/**
+ * Converts the values bound to a query to the types accepted by every client: booleans
+ * are stored as 1 or 0 in the tinyint columns, and missing values as NULL.
+ *
+ * @param {any[]} values - The values of the placeholders.
+ * @returns {any[]} - The converted values.
+ */
+export function normalizeValues(values: any[] = []): any[] {
+  return values.map((value) => {
+    if (value === undefined) return null;
+    if (typeof value === "boolean") return value ? 1 : 0;
+    return value;
+  });
+}
+
+/**
+ * Runs queries as a single transaction: either every query is committed or none is.
+ * The whole transaction is retried with exponential backoff if a deadlock is detected.
+ *
+ * @param {StorageDriverInterface} driver - The storage client to run the transaction on.
+ * @param {Function} run - Runs the queries of the transaction on the given connection.
+ * @throws {Error} - Throws an error if any query or the commit fails, after rolling back the transaction.
+ */
+export async function runTransaction(
+  driver: StorageDriverInterface,
+  run: (connection: SqlConnectionInterface) => Promise<void>
+): Promise<void> {
+  let delayMs = DB_RETRY_DELAY;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await driver.transaction(run);
+      return;
+    } catch (error) {
+      if (!driver.isDeadlock(error) || attempt >= DB_MAX_RETRIES) {
+        console.error("Database transaction error:", error);
+        throw error; // Rethrow the error for the caller to handle
+      }
+      console.error(
+        `Deadlock detected. Retrying attempt ${attempt} of ${DB_MAX_RETRIES} after ${delayMs}ms...`
+      );
+      await delay(delayMs);
+      delayMs *= 2; // Exponential backoff
+    }
+  }
+}
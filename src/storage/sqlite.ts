@@ -0,0 +1,128 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import {
+  QueryResultInterface,
+  SqlConnectionInterface,
+  SqlDialectInterface,
+  StorageDriverInterface,
+} from "../constants/interfaces";
+import { normalizeValues } from "./sql";
+
+// Error codes raised by rows that will fail whatever the number of retries
+const PERMANENT_ERROR_CODES = [
+  "SQLITE_MISMATCH",
+  "SQLITE_RANGE",
+  "SQLITE_TOOBIG",
+];
+
+export const SQLITE_DIALECT: SqlDialectInterface = {
+  quote: (identifier) => `"${identifier}"`,
+  datetimeType: "datetime",
+  now: "datetime('now')",
+  secondsFromNow: "datetime('now', ? || ' seconds')",
+  isoDate: (column) => `strftime('%Y-%m-%dT%H:%M:%SZ', ${column})`,
+  secondsBetween: (from, to) =>
+    `(strftime('%s', ${to}) - strftime('%s', ${from}))`,
+  greatest: (a, b) => `MAX(${a}, ${b})`,
+  excluded: (column) => `excluded.${column}`,
+  onConflict: (keys, updates) =>
+    Object.keys(updates).length > 0
+      ? `ON CONFLICT (${keys.join(", ")}) DO UPDATE SET ${Object.entries(
+          updates
+        )
+          .map(([column, value]) => `${column} = ${value}`)
+          .join(", ")}`
+      : `ON CONFLICT (${keys.join(", ")}) DO NOTHING`,
+  returningId: "",
+};
+
+/**
+ * Creates the SQLite client, on a single database file (or `:memory:`). Queries are run
+ * one at a time, so the queries of a transaction are never interleaved with other ones.
+ * @param {string} file - The path of the database file.
+ * @returns {StorageDriverInterface} - The client.
+ */
+export function createSqliteDriver(file: string): StorageDriverInterface {
+  if (file !== ":memory:") {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  if (file !== ":memory:") db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+
+  // Tail of the queries and transactions waiting to run
+  let queue: Promise<unknown> = Promise.resolve();
+  let running = 0;
+
+  /**
+   * Runs a task once the previous ones are done.
+   * @param {Function} task - The task to run.
+   * @returns {Promise} - The result of the task.
+   */
+  function serialize<T>(task: () => Promise<T> | T): Promise<T> {
+    const result = queue.then(async () => {
+      running++;
+      try {
+        return await task();
+      } finally {
+        running--;
+      }
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  const connection: SqlConnectionInterface = {
+    async query(sql, values): Promise<QueryResultInterface> {
+      const statement = db.prepare(sql);
+      const params = normalizeValues(values);
+      if (statement.reader) {
+        return {
+          rows: statement.all(...params),
+          affectedRows: 0,
+          insertId: null,
+        };
+      }
+      const info = statement.run(...params);
+      return {
+        rows: [],
+        affectedRows: info.changes,
+        insertId: Number(info.lastInsertRowid) || null,
+      };
+    },
+  };
+
+  return {
+    client: "sqlite",
+    dialect: SQLITE_DIALECT,
+
+    query: (sql, values) => serialize(() => connection.query(sql, values)),
+
+    transaction: (run) =>
+      serialize(async () => {
+        db.exec("BEGIN");
+        try {
+          await run(connection);
+          db.exec("COMMIT");
+        } catch (error) {
+          if (db.inTransaction) db.exec("ROLLBACK");
+          throw error;
+        }
+      }),
+
+    isDeadlock: (error) => error?.code?.startsWith("SQLITE_BUSY") ?? false,
+
+    isPermanentError(error) {
+      const code = error?.code?.toString() || "";
+      return (
+        code.startsWith("SQLITE_CONSTRAINT") || // Integrity constraint violation
+        PERMANENT_ERROR_CODES.includes(code)
+      );
+    },
+
+    getActiveConnections: () => running,
+
+    close: () => serialize(() => void db.close()),
+  };
+}
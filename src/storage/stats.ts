@@ -0,0 +1,184 @@
+import { SQL_TRADES_DEX, SQL_USERS_STATS } from "../constants/tables";
+import { StorageDriverInterface } from "../constants/interfaces";
+import { placeholders, runTransaction } from "./sql";
+
+// Columns of the rows of the users stats, in the order of their values
+const STATS_COLUMNS = [
+  "user",
+  "token",
+  "trades",
+  "wins",
+  "losses",
+  "win_rate",
+  "total_pnl",
+  "avg_pnl",
+  "gross_profit",
+  "gross_loss",
+  "profit_factor",
+  "avg_hold_time",
+  "largest_win",
+  "largest_loss",
+  "max_drawdown",
+  "sharpe_ratio",
+  "peak_pnl",
+  "sum_squares",
+  "total_hold_time",
+  "timestamp",
+];
+
+/**
+ * Creates the repository of the users stats, aggregated from their closed trades.
+ * @param {StorageDriverInterface} driver - The storage client.
+ * @returns {Object} - The queries of the users stats.
+ */
+export function createStatsRepository(driver: StorageDriverInterface) {
+  const { dialect } = driver;
+  const USER = dialect.quote("user");
+
+  return {
+    /**
+     * Fetches the closed trades of a user, in close order.
+     * @param {number} user - The id of the user.
+     * @returns {Promise<any[]>} - The token, scaled pnl and hold time in seconds of the trades.
+     */
+    async getClosedTrades(user: number): Promise<any[]> {
+      const { rows } = await driver.query(
+        `
+          SELECT token, pnl, ${dialect.secondsBetween(
+            "start_date",
+            "end_date"
+          )} AS hold_time
+          FROM ${SQL_TRADES_DEX}
+          WHERE ${USER}=? AND end_date IS NOT NULL
+          ORDER BY end_date ASC, id ASC`,
+        [user]
+      );
+      return rows;
+    },
+
+    /**
+     * Fetches closed trades by their id, in close order.
+     * @param {string[]} tradeIds - The ids of the trades.
+     * @returns {Promise<any[]>} - The user, token, scaled pnl and hold time in seconds of the trades.
+     */
+    async getClosedTradesByIds(tradeIds: string[]): Promise<any[]> {
+      if (tradeIds.length === 0) return [];
+      const { rows } = await driver.query(
+        `
+          SELECT ${USER}, token, pnl, ${dialect.secondsBetween(
+          "start_date",
+          "end_date"
+        )} AS hold_time
+          FROM ${SQL_TRADES_DEX}
+          WHERE trade_id IN (${tradeIds.map(() => "?").join(", ")})
+            AND end_date IS NOT NULL
+          ORDER BY end_date ASC, id ASC`,
+        tradeIds
+      );
+      return rows;
+    },
+
+    /**
+     * Fetches the users with closed trades.
+     * @returns {Promise<number[]>} - The ids of the users.
+     */
+    async getUsersWithClosedTrades(): Promise<number[]> {
+      const { rows } = await driver.query(
+        `SELECT DISTINCT ${USER} FROM ${SQL_TRADES_DEX} WHERE end_date IS NOT NULL`
+      );
+      return rows.map((row: any) => row.user);
+    },
+
+    /**
+     * Writes the aggregates of a user, replacing the stored ones.
+     * @param {any[][]} rows - The rows of the aggregates, overall and per token.
+     */
+    async save(rows: any[][]) {
+      const updates: { [column: string]: string } = {};
+      STATS_COLUMNS.slice(2).forEach(
+        (column) => (updates[column] = dialect.excluded(column))
+      );
+      await runTransaction(driver, async (connection) => {
+        await connection.query(
+          `
+            INSERT INTO ${SQL_USERS_STATS} (${STATS_COLUMNS.map(
+            dialect.quote
+          ).join(", ")})
+            VALUES ${placeholders(rows)}
+            ${dialect.onConflict([USER, "token"], updates)}`,
+          rows.flat()
+        );
+      });
+    },
+
+    /**
+     * Fetches the running aggregates of a user, the stats are derived from.
+     * @param {number} user - The id of the user.
+     * @returns {Promise<any[]>} - The token and running aggregates of every stored row, scaled.
+     */
+    async getRunning(user: number): Promise<any[]> {
+      const { rows } = await driver.query(
+        `
+          SELECT token, trades, wins, losses, gross_profit, gross_loss, largest_win,
+            largest_loss, peak_pnl, max_drawdown, sum_squares, total_hold_time
+          FROM ${SQL_USERS_STATS}
+          WHERE ${USER}=?`,
+        [user]
+      );
+      return rows;
+    },
+
+    /**
+     * Replaces stored aggregates of a user in a single transaction, provided no other update
+     * was written since they were read: each row is only updated while its number of trades
+     * is the one it was computed from.
+     * @param {any[][]} rows - The rows of the aggregates.
+     * @param {number[]} expectedTrades - The number of trades of each row, as read.
+     * @returns {Promise<boolean>} - Whether the rows were written, false if one changed meanwhile.
+     */
+    async update(rows: any[][], expectedTrades: number[]): Promise<boolean> {
+      const columns = STATS_COLUMNS.slice(2);
+      let changed = false;
+      await runTransaction(driver, async (connection) => {
+        changed = false;
+        for (const [i, row] of rows.entries()) {
+          const { affectedRows } = await connection.query(
+            `
+              UPDATE ${SQL_USERS_STATS}
+              SET ${columns.map((column) => `${column}=?`).join(", ")}
+              WHERE ${USER}=? AND token=? AND trades=?`,
+            [...row.slice(2), row[0], row[1], expectedTrades[i]]
+          );
+          if (affectedRows === 0) {
+            changed = true;
+            throw new Error(`Stats of user ${row[0]} changed meanwhile`);
+          }
+        }
+      }).catch((error) => {
+        if (!changed) throw error;
+      });
+      return !changed;
+    },
+
+    /**
+     * Fetches the stored aggregates of a user, overall first and then per token.
+     * @param {number} user - The id of the user.
+     * @param {string} allTokens - The token of the overall aggregates.
+     * @returns {Promise<any[]>} - The stored aggregates.
+     */
+    async getByUser(user: number, allTokens: string): Promise<any[]> {
+      const { rows } = await driver.query(
+        `
+          SELECT ${USER}, token, trades, wins, losses, win_rate, total_pnl, avg_pnl,
+            gross_profit, gross_loss, profit_factor, avg_hold_time, largest_win,
+            largest_loss, max_drawdown, sharpe_ratio,
+            ${dialect.isoDate("timestamp")} AS timestamp
+          FROM ${SQL_USERS_STATS}
+          WHERE ${USER}=?
+          ORDER BY token = ? DESC, token ASC`,
+        [user, allTokens]
+      );
+      return rows;
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { SQL_TOKENS } from "../constants/tables";
+import { StorageDriverInterface } from "../constants/interfaces";
+
+/**
+ * Creates the repository of the tokens tracked.
+ * @param {StorageDriverInterface} driver - The storage client.
+ * @returns {Object} - The queries of the tokens.
+ */
+export function createTokensRepository(driver: StorageDriverInterface) {
+  const { dialect } = driver;
+
+  return {
+    /**
+     * Fetches the symbols of the active tokens.
+     * @returns {Promise<string[]>} - The symbols (e.g. BTCUSD).
+     */
+    async getActiveSymbols(): Promise<string[]> {
+      const { rows } = await driver.query(
+        `SELECT symbol FROM ${SQL_TOKENS} WHERE is_active=1`
+      );
+      return rows.map((row: any) => row.symbol);
+    },
+
+    /**
+     * Activates a token, adding it if needed.
+     * @param {string} symbol - The symbol of the token.
+     * @param {string | null} name - The name of the token, when added.
+     * @returns {Promise<number>} - The number of tokens added or changed.
+     */
+    async activate(symbol: string, name: string | null): Promise<number> {
+      const { affectedRows } = await driver.query(
+        `
+          INSERT INTO ${SQL_TOKENS} (symbol, name, is_active) VALUES (?, ?, 1)
+          ${dialect.onConflict(["symbol"], { is_active: "1" })}`,
+        [symbol, name]
+      );
+      return affectedRows;
+    },
+
+    /**
+     * Deactivates a token.
+     * @param {string} symbol - The symbol of the token.
+     * @returns {Promise<number>} - The number of tokens changed.
+     */
+    async deactivate(symbol: string): Promise<number> {
+      const { affectedRows } = await driver.query(
+        `UPDATE ${SQL_TOKENS} SET is_active = 0 WHERE symbol=?`,
+        [symbol]
+      );
+      return affectedRows;
+    },
+  };
+}
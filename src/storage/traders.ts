@@ -0,0 +1,105 @@
+import { SQL_USERS, SQL_USERS_WALLETS } from "../constants/tables";
+import {
+  StorageDriverInterface,
+  WalletSettingsInterface,
+} from "../constants/interfaces";
+
+/**
+ * Creates the repository of the traders: the users and their wallets.
+ * @param {StorageDriverInterface} driver - The storage client.
+ * @returns {Object} - The queries of the traders.
+ */
+export function createTradersRepository(driver: StorageDriverInterface) {
+  const { dialect } = driver;
+  const USER = dialect.quote("user");
+
+  return {
+    /**
+     * Fetches the active wallets of a trader type and server group. Wallets without server
+     * group are followed by the instances without one.
+     * @param {number} traderType - The trader type of the wallets.
+     * @param {string} serverGroup - The server group of the wallets, empty for none.
+     * @returns {Promise<any[]>} - The user, address and subaccounts of the wallets.
+     */
+    async getActive(traderType: number, serverGroup: string): Promise<any[]> {
+      const { rows } = await driver.query(
+        `
+          SELECT ${USER}, address, subaccounts FROM ${SQL_USERS_WALLETS}
+          WHERE trader_type=? AND COALESCE(server_group, '')=? AND is_active=1`,
+        [traderType, serverGroup]
+      );
+      return rows;
+    },
+
+    /**
+     * Adds a user.
+     * @param {string} username - The name of the user.
+     * @returns {Promise<number>} - The id of the new user.
+     */
+    async addUser(username: string): Promise<number> {
+      const { insertId } = await driver.query(
+        `INSERT INTO ${SQL_USERS} (username) VALUES (?)${dialect.returningId}`,
+        [username]
+      );
+      return insertId as number;
+    },
+
+    /**
+     * Activates or deactivates every wallet of a user.
+     * @param {number} user - The id of the user.
+     * @param {boolean} active - Whether the wallets are active.
+     * @returns {Promise<number>} - The number of wallets changed.
+     */
+    async setUserActive(user: number, active: boolean): Promise<number> {
+      const { affectedRows } = await driver.query(
+        `UPDATE ${SQL_USERS_WALLETS} SET is_active=? WHERE ${USER}=?`,
+        [active ? 1 : 0, user]
+      );
+      return affectedRows;
+    },
+
+    /**
+     * Adds an active wallet to a user.
+     * @param {number} user - The id of the user.
+     * @param {string} address - The address of the wallet.
+     * @param {WalletSettingsInterface} settings - The subaccounts, trader type and server group of the wallet.
+     */
+    async addWallet(
+      user: number,
+      address: string,
+      settings: WalletSettingsInterface
+    ) {
+      await driver.query(
+        `
+          INSERT INTO ${SQL_USERS_WALLETS} (${USER}, address, subaccounts, trader_type, server_group, is_active)
+          VALUES (?, ?, ?, ?, ?, 1)`,
+        [
+          user,
+          address,
+          settings.subaccounts,
+          settings.trader_type,
+          settings.server_group,
+        ]
+      );
+    },
+
+    /**
+     * Updates the given columns of a wallet.
+     * @param {string} address - The address of the wallet.
+     * @param {Array} columns - The columns to change, with their value.
+     * @returns {Promise<number>} - The number of wallets changed.
+     */
+    async updateWallet(
+      address: string,
+      columns: [string, any][]
+    ): Promise<number> {
+      const { affectedRows } = await driver.query(
+        `UPDATE ${SQL_USERS_WALLETS} SET ${columns
+          .map(([column]) => `${column}=?`)
+          .join(", ")} WHERE address=?`,
+        [...columns.map(([, value]) => value), address]
+      );
+      return affectedRows;
+    },
+  };
+}
@@ -0,0 +1,296 @@
+import {
+  SQL_FILLS_DEX,
+  SQL_NOTIFICATIONS_OUTBOX,
+  SQL_TRADES_DEX,
+} from "../constants/tables";
+import {
+  StorageDriverInterface,
+  TradeFiltersInterface,
+} from "../constants/interfaces";
+import { lastRowPerKey, placeholders, runTransaction } from "./sql";
+
+// Columns of the rows of trades, fills and notifications, in the order of their values
+const TRADE_INSERT_COLUMNS = [
+  "user",
+  "trade_id",
+  "trader_address",
+  "subaccount",
+  "token",
+  "bias",
+  "size",
+  "sum_open",
+  "sum_close",
+  "limit_price",
+  "exit_price",
+  "start_date",
+  "end_date",
+  "funding",
+  "realised_pnl",
+  "gross_pnl",
+  "fees",
+  "net_pnl",
+  "pnl",
+  "is_profitable",
+  "close_reason",
+  "timestamp",
+];
+const FILL_INSERT_COLUMNS = [
+  "fill_id",
+  "trade_id",
+  "user",
+  "trader_address",
+  "subaccount",
+  "token",
+  "order_id",
+  "side",
+  "size",
+  "price",
+  "fee",
+  "liquidity",
+  "fill_type",
+  "block_height",
+  "created_at",
+  "timestamp",
+];
+const NOTIFICATION_INSERT_COLUMNS = [
+  "dedup_key",
+  "queue",
+  "message",
+  "expiration",
+];
+
+// Columns of a trade updated when it is written again
+const TRADE_UPDATE_COLUMNS = TRADE_INSERT_COLUMNS.filter(
+  (column) =>
+    ![
+      "user",
+      "trade_id",
+      "trader_address",
+      "subaccount",
+      "token",
+      "bias",
+    ].includes(column)
+);
+
+/**
+ * Creates the repository of the trades, with their fills and the notifications of their events.
+ * @param {StorageDriverInterface} driver - The storage client.
+ * @returns {Object} - The queries of the trades.
+ */
+export function createTradesRepository(driver: StorageDriverInterface) {
+  const { dialect } = driver;
+  const USER = dialect.quote("user");
+
+  // Columns of a stored trade, with the dates formatted as ISO strings
+  const TRADE_COLUMNS = `
+    ${USER}, trade_id, trader_address, subaccount, token, bias, size,
+    sum_open, sum_close, limit_price, exit_price,
+    ${dialect.isoDate("start_date")} AS start_date,
+    ${dialect.isoDate("end_date")} AS end_date,
+    funding, realised_pnl, gross_pnl, fees, net_pnl, pnl, is_profitable,
+    close_reason`;
+
+  /**
+   * Builds the conditions of the user, address and token filters.
+   * @param {TradeFiltersInterface} filters - The filters.
+   * @param {string[]} conditions - The conditions, completed in place.
+   * @param {any[]} values - The values of the conditions, completed in place.
+   */
+  const filterTrades = (
+    filters: TradeFiltersInterface,
+    conditions: string[],
+    values: any[]
+  ) => {
+    if (filters.user !== undefined) {
+      conditions.push(`${USER}=?`);
+      values.push(filters.user);
+    }
+    if (filters.address !== undefined) {
+      conditions.push("trader_address=?");
+      values.push(filters.address);
+    }
+    if (filters.token !== undefined) {
+      conditions.push("token=?");
+      values.push(filters.token);
+    }
+  };
+
+  /**
+   * Builds a multi-row insert of the given columns.
+   * @param {string} table - The table to insert into.
+   * @param {string[]} columns - The columns of the values.
+   * @param {any[][]} rows - The rows of values.
+   * @returns {string} - The insert, without conflict clause.
+   */
+  const insertInto = (table: string, columns: string[], rows: any[][]) => `
+    INSERT INTO ${table} (${columns.map(dialect.quote).join(", ")})
+    VALUES ${placeholders(rows)}`;
+
+  return {
+    /**
+     * Fetches the open trades (without end date) of a trader subaccount, oldest first.
+     * @param {string} traderAddress - The blockchain address of the trader.
+     * @param {number} subaccount - The subaccount number of the trader.
+     * @returns {Promise<any[]>} - The stored trades.
+     */
+    async getOpenByTrader(
+      traderAddress: string,
+      subaccount: number
+    ): Promise<any[]> {
+      const { rows } = await driver.query(
+        `
+          SELECT ${TRADE_COLUMNS}
+          FROM ${SQL_TRADES_DEX}
+          WHERE trader_address=? AND subaccount=? AND end_date IS NULL
+          ORDER BY start_date ASC`,
+        [traderAddress, subaccount]
+      );
+      return rows;
+    },
+
+    /**
+     * Fetches the open trades matching the given filters, oldest first.
+     * @param {TradeFiltersInterface} filters - The user, address and token to filter by.
+     * @returns {Promise<any[]>} - The stored trades.
+     */
+    async getOpen(filters: TradeFiltersInterface): Promise<any[]> {
+      const conditions = ["end_date IS NULL"];
+      const values: any[] = [];
+      filterTrades(filters, conditions, values);
+
+      const { rows } = await driver.query(
+        `
+          SELECT ${TRADE_COLUMNS}
+          FROM ${SQL_TRADES_DEX}
+          WHERE ${conditions.join(" AND ")}
+          ORDER BY start_date ASC, id ASC`,
+        values
+      );
+      return rows;
+    },
+
+    /**
+     * Fetches a page of the closed trades matching the given filters, most recently closed first.
+     * @param {TradeFiltersInterface} filters - The filters, with the close date range as SQL dates.
+     * @param {number} page - The page to fetch, starting at 1.
+     * @param {number} limit - The number of trades per page.
+     * @returns {Promise<Object>} - The stored trades of the page and the number of trades matching.
+     */
+    async getClosed(
+      filters: TradeFiltersInterface,
+      page: number,
+      limit: number
+    ): Promise<{ rows: any[]; total: number }> {
+      const conditions = ["end_date IS NOT NULL"];
+      const values: any[] = [];
+      filterTrades(filters, conditions, values);
+      if (filters.from !== undefined) {
+        conditions.push("end_date>=?");
+        values.push(filters.from);
+      }
+      if (filters.to !== undefined) {
+        conditions.push("end_date<=?");
+        values.push(filters.to);
+      }
+      const where = conditions.join(" AND ");
+
+      const {
+        rows: [{ total }],
+      } = await driver.query(
+        `SELECT COUNT(*) AS total FROM ${SQL_TRADES_DEX} WHERE ${where}`,
+        values
+      );
+      const { rows } = await driver.query(
+        `
+          SELECT ${TRADE_COLUMNS}
+          FROM ${SQL_TRADES_DEX}
+          WHERE ${where}
+          ORDER BY end_date DESC, id DESC
+          LIMIT ${limit} OFFSET ${(page - 1) * limit}`,
+        values
+      );
+      return { rows, total: Number(total) };
+    },
+
+    /**
+     * Writes trades, fills and notifications in a single transaction. Trades already stored
+     * are updated, fills already recorded (e.g. replayed by a backfill) only update their
+     * trade, and notifications already recorded (e.g. a retried batch) are ignored by their key.
+     * A trade or fill written several times in the batch (e.g. opened then closed before the
+     * flush) is only written with its last row.
+     * @param {Object} rows - The rows of values of the trades, fills and notifications.
+     */
+    async save(rows: {
+      trades: any[][];
+      fills: any[][];
+      notifications: any[][];
+    }) {
+      const { notifications } = rows;
+      const trades = lastRowPerKey(
+        rows.trades,
+        TRADE_INSERT_COLUMNS.indexOf("trade_id")
+      );
+      const fills = lastRowPerKey(
+        rows.fills,
+        FILL_INSERT_COLUMNS.indexOf("fill_id")
+      );
+      const updates: { [column: string]: string } = {};
+      TRADE_UPDATE_COLUMNS.forEach(
+        (column) => (updates[column] = dialect.excluded(column))
+      );
+      // Closed trades have no unrealized PnL left
+      updates.unrealized_pnl = `CASE WHEN ${dialect.excluded(
+        "end_date"
+      )} IS NULL THEN ${SQL_TRADES_DEX}.unrealized_pnl ELSE '0' END`;
+
+      await runTransaction(driver, async (connection) => {
+        if (trades.length > 0) {
+          await connection.query(
+            `${insertInto(SQL_TRADES_DEX, TRADE_INSERT_COLUMNS, trades)}
+            ${dialect.onConflict(["trade_id"], updates)}`,
+            trades.flat()
+          );
+        }
+        if (fills.length > 0) {
+          await connection.query(
+            `${insertInto(SQL_FILLS_DEX, FILL_INSERT_COLUMNS, fills)}
+            ${dialect.onConflict(["fill_id"], {
+              trade_id: dialect.excluded("trade_id"),
+            })}`,
+            fills.flat()
+          );
+        }
+        if (notifications.length > 0) {
+          await connection.query(
+            `${insertInto(
+              SQL_NOTIFICATIONS_OUTBOX,
+              NOTIFICATION_INSERT_COLUMNS,
+              notifications
+            )}
+            ${dialect.onConflict(["dedup_key"], {})}`,
+            notifications.flat()
+          );
+        }
+      });
+    },
+
+    /**
+     * Updates the unrealized PnL of open trades in a single transaction, retried on deadlocks.
+     * @param {Object[]} updates - The id of every trade, with its mark price, unrealized PnL, notional and ROI, scaled.
+     */
+    async updateUnrealized(updates: { tradeId: string; values: any[] }[]) {
+      if (updates.length === 0) return;
+      await runTransaction(driver, async (connection) => {
+        for (const { tradeId, values } of updates) {
+          await connection.query(
+            `
+              UPDATE ${SQL_TRADES_DEX}
+              SET mark_price=?, unrealized_pnl=?, notional=?, roi=?
+              WHERE trade_id=? AND end_date IS NULL`,
+            [...values, tradeId]
+          );
+        }
+      });
+    },
+  };
+}
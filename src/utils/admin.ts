@@ -0,0 +1,110 @@
+import { WalletSettingsInterface } from "../constants/interfaces";
+import { getStorage } from "../storage";
+
+/**
+ * Adds a user.
+ *
+ * @param {string} username - The name of the user.
+ * @returns {Promise<number>} A promise that resolves to the id of the new user.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const addUser = async (username: string): Promise<number> => {
+  try {
+    return await getStorage().traders.addUser(username);
+  } catch (error) {
+    console.error(`Error adding user ${username}: `, error);
+    throw error;
+  }
+};
+
+/**
+ * Activates or deactivates every wallet of a user, so its traders are subscribed or
+ * unsubscribed on the next refresh of the traders.
+ *
+ * @param {number} user - The id of the user.
+ * @param {boolean} active - Whether the wallets are active.
+ * @returns {Promise<number>} A promise that resolves to the number of wallets changed.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const setUserActive = async (
+  user: number,
+  active: boolean
+): Promise<number> => {
+  try {
+    return await getStorage().traders.setUserActive(user, active);
+  } catch (error) {
+    console.error(`Error updating wallets of user ${user}: `, error);
+    throw error;
+  }
+};
+
+/**
+ * Adds an active wallet to a user.
+ *
+ * @param {number} user - The id of the user.
+ * @param {string} address - The address of the wallet, already validated.
+ * @param {WalletSettingsInterface} settings - The subaccounts, trader type and server group of the wallet.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const addWallet = async (
+  user: number,
+  address: string,
+  settings: WalletSettingsInterface
+) => {
+  try {
+    await getStorage().traders.addWallet(user, address, settings);
+  } catch (error) {
+    console.error(`Error adding wallet ${address}: `, error);
+    throw error;
+  }
+};
+
+/**
+ * Updates the settings of a wallet, leaving the ones not given unchanged.
+ *
+ * @param {string} address - The address of the wallet.
+ * @param {Partial<WalletSettingsInterface>} settings - The settings to change, and whether the wallet is active.
+ * @returns {Promise<number>} A promise that resolves to the number of wallets changed.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const updateWallet = async (
+  address: string,
+  settings: Partial<WalletSettingsInterface> & { is_active?: number }
+): Promise<number> => {
+  const columns = Object.entries(settings).filter(
+    ([, value]) => value !== undefined
+  );
+  if (columns.length === 0) return 0;
+  try {
+    return await getStorage().traders.updateWallet(address, columns);
+  } catch (error) {
+    console.error(`Error updating wallet ${address}: `, error);
+    throw error;
+  }
+};
+
+/**
+ * Activates or deactivates a token, adding it when activated for the first time.
+ * Trackers pick the change up on the next refresh of the cached pairs.
+ *
+ * @param {string} symbol - The symbol of the token (e.g. BTCUSD).
+ * @param {boolean} active - Whether the token is tracked.
+ * @param {string} [name] - The name of the token, when added.
+ * @returns {Promise<number>} A promise that resolves to the number of tokens added or changed.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const setTokenActive = async (
+  symbol: string,
+  active: boolean,
+  name?: string
+): Promise<number> => {
+  try {
+    const { tokens } = getStorage();
+    return active
+      ? await tokens.activate(symbol, name ?? null)
+      : await tokens.deactivate(symbol);
+  } catch (error) {
+    console.error(`Error updating token ${symbol}: `, error);
+    throw error;
+  }
+};
@@ -0,0 +1,166 @@
+import fs from "fs";
+import Decimal from "decimal.js";
+import { ALERT_RULES_FILE } from "../constants";
+import {
+  AlertInterface,
+  AlertRuleInterface,
+  TradeEventInterface,
+} from "../constants/interfaces";
+import { toDecimal } from "./pnl";
+
+// Conditions a rule can check
+const CONDITIONS = ["notional_above", "loss_above", "event", "trades_above"];
+
+// Date of the last alert of every rule, keyed by rule and trader
+const LAST_ALERTS: Map<string, number> = new Map();
+
+// Dates of the trades opened by every trader, keyed by rule and trader
+const OPENED_TRADES: Map<string, number[]> = new Map();
+
+/**
+ * Checks that a rule of the rules file is well formed.
+ * @param {any} rule - The rule to check.
+ * @returns {string | null} - The reason the rule is invalid, or null if it is valid.
+ */
+function validateRule(rule: any): string | null {
+  if (!rule || typeof rule.id !== "string") return "missing id";
+  if (!CONDITIONS.includes(rule.condition))
+    return `unknown condition ${rule.condition}`;
+  if (rule.condition !== "event" && !(Number(rule.threshold) > 0))
+    return "threshold must be a positive number";
+  if (rule.condition === "trades_above" && !(Number(rule.window) > 0))
+    return "window must be a positive number of seconds";
+  return null;
+}
+
+/**
+ * Loads the alert rules from a JSON file holding an array of rules. Invalid rules are
+ * logged and skipped, and a missing file means no alert.
+ * @param {string} file - The path of the rules file.
+ * @returns {AlertRuleInterface[]} - The valid rules.
+ */
+export function loadAlertRules(file: string): AlertRuleInterface[] {
+  if (!fs.existsSync(file)) return [];
+
+  try {
+    const rules = JSON.parse(fs.readFileSync(file, "utf-8"));
+    if (!Array.isArray(rules)) throw new Error("rules must be an array");
+    return rules.filter((rule: any) => {
+      const error = validateRule(rule);
+      if (error) console.error(`Skipping alert rule ${rule?.id}: ${error}`);
+      return !error;
+    });
+  } catch (error) {
+    console.error(`Failed to load alert rules from ${file}:`, error);
+    return [];
+  }
+}
+
+// Alert rules, loaded once at startup
+const ALERT_RULES = loadAlertRules(ALERT_RULES_FILE);
+if (ALERT_RULES.length > 0) {
+  console.log(`LOADED ${ALERT_RULES.length} alert rules`);
+}
+
+/**
+ * Checks the condition of a rule against a trade event.
+ * @param {AlertRuleInterface} rule - The rule to check.
+ * @param {TradeEventInterface} event - The trade event.
+ * @param {string} key - The key of the rule and trader.
+ * @param {number} now - The date of the evaluation, in milliseconds.
+ * @returns {string | null} - The description of what triggered the rule, or null if it didn't.
+ */
+function checkCondition(
+  rule: AlertRuleInterface,
+  event: TradeEventInterface,
+  key: string,
+  now: number
+): string | null {
+  const threshold = toDecimal(rule.threshold);
+
+  // Size of the position times the price of the change
+  if (rule.condition === "notional_above") {
+    const notional = toDecimal(event.size).times(toDecimal(event.price));
+    if (!notional.greaterThan(threshold)) return null;
+    return `${event.side} ${event.token} notional ${notional.toFixed(
+      2
+    )} above ${threshold}`;
+  }
+
+  // Net PnL of the part closed, relative to its entry notional. Closed trades (closes and
+  // flips) carry the whole size they closed, their sum_close being the one of the last reduction
+  if (rule.condition === "loss_above") {
+    const closed = event.trade.end_date
+      ? toDecimal(event.trade.size).abs()
+      : toDecimal(event.trade.sum_close);
+    const entry = closed.times(toDecimal(event.trade.limit_price));
+    if (entry.isZero()) return null;
+    const roi = toDecimal(event.pnl.net_pnl).div(entry).times(100);
+    if (!roi.lessThan(threshold.neg())) return null;
+    return `${event.side} ${event.token} loss of ${roi
+      .abs()
+      .toFixed(2)}% beyond ${threshold}%`;
+  }
+
+  // Trades opened by the trader within the window
+  if (rule.condition === "trades_above") {
+    if (event.event !== "opened") return null;
+    const since = now - Number(rule.window) * 1000;
+    const opened = (OPENED_TRADES.get(key) ?? []).filter(
+      (date) => date > since
+    );
+    opened.push(now);
+    OPENED_TRADES.set(key, opened);
+    if (!new Decimal(opened.length).greaterThan(threshold)) return null;
+    return `${opened.length} trades opened in the last ${rule.window} seconds`;
+  }
+
+  // Any event matching the filters of the rule
+  return `${event.event} ${event.side} ${event.token}`;
+}
+
+/**
+ * Evaluates the alert rules against a trade event. A rule triggers when the event matches
+ * its filters (events, tokens, users) and its condition, unless it already triggered for
+ * the same trader within its cooldown.
+ *
+ * @param {TradeEventInterface} event - The trade event.
+ * @param {AlertRuleInterface[]} [rules=ALERT_RULES] - The rules to evaluate.
+ * @returns {AlertInterface[]} - The alerts triggered by the event.
+ */
+export function evaluateAlerts(
+  event: TradeEventInterface,
+  rules: AlertRuleInterface[] = ALERT_RULES
+): AlertInterface[] {
+  const alerts: AlertInterface[] = [];
+  const now = Date.now();
+
+  for (const rule of rules) {
+    try {
+      if (rule.events && !rule.events.includes(event.event)) continue;
+      if (rule.tokens && !rule.tokens.includes(event.token)) continue;
+      if (rule.users && !rule.users.includes(event.trader.user)) continue;
+
+      const key = `${rule.id}:${event.trader.address}/${event.trader.subaccount}`;
+      const reason = checkCondition(rule, event, key, now);
+      if (!reason) continue;
+
+      const lastAlert = LAST_ALERTS.get(key);
+      if (lastAlert && now - lastAlert < (rule.cooldown ?? 0) * 1000) continue;
+      LAST_ALERTS.set(key, now);
+
+      alerts.push({
+        version: 1,
+        type: "alert",
+        rule: rule.id,
+        description: rule.description ?? null,
+        reason,
+        dedup_key: `${rule.id}:${event.dedup_key}`,
+        event,
+      });
+    } catch (error) {
+      console.error(`Error evaluating alert rule ${rule.id}:`, error);
+    }
+  }
+  return alerts;
+}
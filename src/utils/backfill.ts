@@ -0,0 +1,296 @@
+import { BACKFILL_MAX_PAGES, PAGE_SIZE_TRADES } from "../constants";
+import { CLOSED_STATUS, OPEN_STATUS } from "../constants/dydx";
+import { SQL_SUBACCOUNTS_SYNC } from "../constants/tables";
+import { getDialect, sqlExecute, sqlQuery } from "./database";
+import { getFills, getPerpetualPositions } from "./indexer";
+import { processSubscriptions, updatePosition } from "./trading";
+import { quarantineMessage } from "./quarantine";
+import { validateFill, validatePosition } from "./validation";
+
+/**
+ * Fetches the last block height processed for a subaccount.
+ *
+ * @param {string} id - The subscription id of the subaccount (address/subaccount).
+ * @returns {Promise<number | null>} A promise that resolves to the last processed block height, or null if the subaccount was never processed.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const getLastProcessedHeight = async (
+  id: string
+): Promise<number | null> => {
+  const result = await sqlQuery(
+    `SELECT last_height FROM ${SQL_SUBACCOUNTS_SYNC} WHERE subaccount_id=?`,
+    [id]
+  );
+  return result.length > 0 ? Number(result[0].last_height) : null;
+};
+
+/**
+ * Stores the last block height processed for a subaccount. The stored height never moves backwards.
+ *
+ * @param {string} id - The subscription id of the subaccount (address/subaccount).
+ * @param {number} height - The block height processed.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const saveLastProcessedHeight = async (id: string, height: number) => {
+  const dialect = getDialect();
+  await sqlExecute(
+    `
+      INSERT INTO ${SQL_SUBACCOUNTS_SYNC} (subaccount_id, last_height)
+      VALUES (?, ?)
+      ${dialect.onConflict(["subaccount_id"], {
+        last_height: dialect.greatest(
+          `${SQL_SUBACCOUNTS_SYNC}.last_height`,
+          dialect.excluded("last_height")
+        ),
+      })}`,
+    [id, height]
+  );
+};
+
+/**
+ * Requests the resync of a subaccount: the instance subscribed to it resubscribes, and
+ * backfills it from the given block height instead of its last processed one.
+ *
+ * @param {string} id - The subscription id of the subaccount (address/subaccount).
+ * @param {number} height - The block height to backfill from.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const requestResync = async (id: string, height: number) => {
+  const dialect = getDialect();
+  await sqlExecute(
+    `
+      INSERT INTO ${SQL_SUBACCOUNTS_SYNC} (subaccount_id, last_height, resync_from)
+      VALUES (?, ?, ?)
+      ${dialect.onConflict(["subaccount_id"], {
+        resync_from: dialect.excluded("resync_from"),
+      })}`,
+    [id, height, height]
+  );
+};
+
+/**
+ * Fetches the subaccounts with a pending resync request.
+ *
+ * @returns {Promise<string[]>} A promise that resolves to the subscription ids of the subaccounts to resync.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const getPendingResyncs = async (): Promise<string[]> => {
+  const result = await sqlQuery(
+    `SELECT subaccount_id FROM ${SQL_SUBACCOUNTS_SYNC} WHERE resync_from IS NOT NULL`
+  );
+  return result.map((row: any) => row.subaccount_id);
+};
+
+/**
+ * Takes the pending resync request of a subaccount, clearing it.
+ *
+ * @param {string} id - The subscription id of the subaccount (address/subaccount).
+ * @returns {Promise<number | null>} A promise that resolves to the block height to backfill from, or null without request.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const takeResyncHeight = async (id: string): Promise<number | null> => {
+  const result = await sqlQuery(
+    `SELECT resync_from FROM ${SQL_SUBACCOUNTS_SYNC} WHERE subaccount_id=? AND resync_from IS NOT NULL`,
+    [id]
+  );
+  if (result.length === 0) return null;
+  await sqlExecute(
+    `UPDATE ${SQL_SUBACCOUNTS_SYNC} SET resync_from = NULL WHERE subaccount_id=?`,
+    [id]
+  );
+  return Number(result[0].resync_from);
+};
+
+/**
+ * Gets the highest block height of a list of fills.
+ *
+ * @param {any[]} fills - The fills to inspect.
+ * @returns {number} The highest block height of the fills, or 0 if there are none.
+ */
+export const getFillsHeight = (fills: any[]): number => {
+  if (!fills || fills.length === 0) return 0;
+  return Math.max(...fills.map((fill: any) => Number(fill.createdAtHeight)));
+};
+
+/**
+ * Pages backwards through an indexer endpoint sorted by creation height, until the
+ * items created at or before the given height are reached or BACKFILL_MAX_PAGES is hit.
+ *
+ * @param {Function} fetchPage - Fetches a page of items created at or before the given height.
+ * @param {Function} getKey - Returns a unique key of an item, used to drop items repeated across pages.
+ * @param {number} lastHeight - The block height to page back to.
+ * @returns {Promise<any[]>} A promise that resolves to all the fetched items.
+ */
+const fetchSince = async (
+  fetchPage: (createdBeforeOrAtHeight?: number) => Promise<any[]>,
+  getKey: (item: any) => string,
+  lastHeight: number
+): Promise<any[]> => {
+  const items: Map<string, any> = new Map();
+  let createdBeforeOrAtHeight: number | undefined = undefined;
+
+  for (let page = 0; page < BACKFILL_MAX_PAGES; page++) {
+    const pageItems = await fetchPage(createdBeforeOrAtHeight);
+    pageItems.forEach((item) => items.set(getKey(item), item));
+    if (pageItems.length < PAGE_SIZE_TRADES) break;
+
+    const oldestHeight = Math.min(
+      ...pageItems.map((item) => Number(item.createdAtHeight))
+    );
+    if (oldestHeight <= lastHeight || oldestHeight === createdBeforeOrAtHeight)
+      break;
+    createdBeforeOrAtHeight = oldestHeight;
+  }
+
+  return Array.from(items.values());
+};
+
+/**
+ * Drops the items fetched from the indexer that fail validation, quarantining them.
+ *
+ * @param {any[]} items - The items fetched.
+ * @param {Function} validate - Returns the reason an item is invalid, or null if it is valid.
+ * @param {string} source - The subscription id of the subaccount (address/subaccount).
+ * @returns {Promise<any[]>} A promise that resolves to the valid items.
+ */
+const dropInvalid = async (
+  items: any[],
+  validate: (item: any) => string | null,
+  source: string
+): Promise<any[]> => {
+  const valid: any[] = [];
+  for (const item of items) {
+    const reason = validate(item);
+    if (reason) await quarantineMessage(source, item, reason);
+    else valid.push(item);
+  }
+  return valid;
+};
+
+/**
+ * Fills the gap of a subaccount between the last processed block height and now, using
+ * the indexer REST API. Every perpetual position opened or closed after the last processed
+ * height is turned into open and close events, which are replayed in block order through
+ * updatePosition, so missing trades are written as if they had been received live.
+ *
+ * @param {number} user - The id corresponding the user for the given trader.
+ * @param {Map} TRADER_POSITIONS - A map containing the current state of trader positions.
+ * @param {string} traderAddress - The blockchain address of the trader.
+ * @param {number} subaccount - The subaccount number of the trader to backfill.
+ * @param {number} lastHeight - The last block height processed for the subaccount.
+ * @returns {Promise<number>} A promise that resolves to the highest block height replayed.
+ * @throws {Error} Throws an error if the indexer cannot be queried, to be handled by the caller.
+ */
+export const backfillSubaccount = async (
+  user: number,
+  TRADER_POSITIONS: any,
+  traderAddress: string,
+  subaccount: number,
+  lastHeight: number
+): Promise<number> => {
+  const source = `${traderAddress}/${subaccount}`;
+  const positions = await dropInvalid(
+    await fetchSince(
+      (height) =>
+        getPerpetualPositions(
+          traderAddress,
+          subaccount,
+          PAGE_SIZE_TRADES,
+          height
+        ),
+      (position) => `${position.market}-${position.createdAtHeight}`,
+      lastHeight
+    ),
+    validatePosition,
+    source
+  );
+  const fills = (
+    await dropInvalid(
+      await fetchSince(
+        (height) =>
+          getFills(traderAddress, subaccount, PAGE_SIZE_TRADES, height),
+        (fill) => fill.id,
+        lastHeight
+      ),
+      validateFill,
+      source
+    )
+  ).filter((fill) => Number(fill.createdAtHeight) > lastHeight);
+
+  // Build the open and close events that happened after the last processed height
+  const events: any[] = [];
+  for (const position of positions) {
+    if (Number(position.createdAtHeight) > lastHeight) {
+      events.push({
+        height: Number(position.createdAtHeight),
+        createdAt: position.createdAt,
+        position: { ...position, status: OPEN_STATUS },
+      });
+    }
+    if (
+      position.status == CLOSED_STATUS &&
+      Number(position.closedAtHeight) > lastHeight
+    ) {
+      events.push({
+        height: Number(position.closedAtHeight),
+        createdAt: position.closedAt,
+        position,
+      });
+    }
+  }
+
+  // Replay in block order, closing before opening when a position is flipped in a block
+  const isClosing = (event: any) =>
+    event.position.status == CLOSED_STATUS ? 0 : 1;
+  events.sort((a, b) => a.height - b.height || isClosing(a) - isClosing(b));
+
+  if (events.length > 0) {
+    console.log(
+      `BACKFILLING ${events.length} events for ${traderAddress}/${subaccount} since block ${lastHeight}`
+    );
+  }
+
+  for (const event of events) {
+    const position = event.position;
+    const symbol = position.market.replace(/-/g, "");
+
+    // Positions opened before the last processed height must be known before closing them
+    if (
+      position.status == CLOSED_STATUS &&
+      !TRADER_POSITIONS.has(symbol) &&
+      Number(position.createdAtHeight) <= lastHeight
+    ) {
+      await processSubscriptions(
+        user,
+        TRADER_POSITIONS,
+        traderAddress,
+        subaccount,
+        {
+          [position.market]: { ...position, status: OPEN_STATUS },
+        }
+      );
+    }
+
+    const eventFills = fills.filter(
+      (fill) =>
+        fill.market === position.market &&
+        Number(fill.createdAtHeight) === event.height
+    );
+    await updatePosition(
+      user,
+      TRADER_POSITIONS,
+      traderAddress,
+      subaccount,
+      [position],
+      eventFills.length > 0
+        ? eventFills
+        : [{ createdAt: event.createdAt, createdAtHeight: `${event.height}` }]
+    );
+  }
+
+  return Math.max(
+    lastHeight,
+    getFillsHeight(fills),
+    ...events.map((event) => event.height)
+  );
+};
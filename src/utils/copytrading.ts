@@ -0,0 +1,396 @@
+import fs from "fs";
+import Decimal from "decimal.js";
+import {
+  COPY_TRADING_FILE,
+  JOURNAL_DIR,
+  ORDER_SIZE_DECIMALS,
+  TRADER_EQUITY_TTL,
+} from "../constants";
+import {
+  FollowerInterface,
+  OrderIntentInterface,
+  TradeEventInterface,
+} from "../constants/interfaces";
+import { getSubaccountEquity } from "./indexer";
+import { readJournal, rewriteJournal } from "./journal";
+import { toDecimal } from "./pnl";
+
+// Journal of the positions the followers are expected to hold
+const FOLLOWER_POSITIONS_FILE = `${JOURNAL_DIR}/follower_positions.jsonl`;
+
+/**
+ * Position a follower is expected to hold once its order intents are executed
+ */
+interface FollowerPositionInterface {
+  follower: string;
+  trader: string;
+  token: string;
+  size: string;
+  price: string;
+}
+
+// Expected positions of the followers, keyed by follower, trader subaccount and token
+const FOLLOWER_POSITIONS: Map<string, FollowerPositionInterface> = new Map(
+  readJournal(FOLLOWER_POSITIONS_FILE).map((position) => [
+    `${position.follower}:${position.trader}:${position.token}`,
+    position,
+  ])
+);
+
+// Positions expected once the intents generated but not committed yet are executed, keyed
+// like FOLLOWER_POSITIONS (null for a closed position). They take precedence over the committed
+// positions until their intent is committed, and are dropped if it never is.
+const PENDING_POSITIONS: Map<
+  string,
+  { intent_id: string; position: FollowerPositionInterface | null }
+> = new Map();
+
+// Equity of the traders followed with equity sizing, keyed by trader subaccount
+const TRADER_EQUITIES: Map<string, { equity: string; fetchedAt: number }> =
+  new Map();
+
+/**
+ * Checks that a follower of the copy trading file is well formed.
+ * @param {any} follower - The follower to check.
+ * @returns {string | null} - The reason the follower is invalid, or null if it is valid.
+ */
+function validateFollower(follower: any): string | null {
+  if (!follower || typeof follower.id !== "string") return "missing id";
+  if (!follower.traders?.length && !follower.users?.length)
+    return "traders or users are required";
+  if (follower.sizing === "ratio" && !(Number(follower.ratio) > 0))
+    return "ratio must be a positive number";
+  if (follower.sizing === "equity" && !(Number(follower.equity) > 0))
+    return "equity must be a positive number";
+  if (follower.sizing !== "ratio" && follower.sizing !== "equity")
+    return `unknown sizing ${follower.sizing}`;
+  if (follower.max_leverage !== undefined) {
+    if (!(Number(follower.max_leverage) > 0))
+      return "max_leverage must be a positive number";
+    if (!(Number(follower.equity) > 0))
+      return "equity is required by max_leverage";
+  }
+  return null;
+}
+
+/**
+ * Loads the followers from a JSON file holding an array of followers. Invalid followers
+ * are logged and skipped, and a missing file disables copy trading.
+ * @param {string} file - The path of the copy trading file.
+ * @returns {FollowerInterface[]} - The valid followers.
+ */
+export function loadFollowers(file: string): FollowerInterface[] {
+  if (!fs.existsSync(file)) return [];
+
+  try {
+    const followers = JSON.parse(fs.readFileSync(file, "utf-8"));
+    if (!Array.isArray(followers))
+      throw new Error("followers must be an array");
+    return followers.filter((follower: any) => {
+      const error = validateFollower(follower);
+      if (error) console.error(`Skipping follower ${follower?.id}: ${error}`);
+      return !error;
+    });
+  } catch (error) {
+    console.error(`Failed to load followers from ${file}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Gets the position a follower is expected to hold, including the intents not committed yet.
+ * @param {string} key - The key of the follower position.
+ * @returns {FollowerPositionInterface | undefined} - The expected position, if any.
+ */
+function getFollowerPosition(
+  key: string
+): FollowerPositionInterface | undefined {
+  const pending = PENDING_POSITIONS.get(key);
+  return pending ? pending.position ?? undefined : FOLLOWER_POSITIONS.get(key);
+}
+
+/**
+ * Gets the key of the follower position an order intent applies to.
+ * @param {OrderIntentInterface} intent - The order intent.
+ * @returns {string} - The key of the follower position.
+ */
+function getIntentKey(intent: OrderIntentInterface): string {
+  const { address, subaccount } = intent.source;
+  return `${intent.follower}:${address}/${subaccount}:${intent.market.replace(
+    "-",
+    ""
+  )}`;
+}
+
+// Followers, loaded once at startup
+const FOLLOWERS = loadFollowers(COPY_TRADING_FILE);
+if (FOLLOWERS.length > 0) {
+  console.log(`LOADED ${FOLLOWERS.length} copy trading followers`);
+}
+
+/**
+ * Gets the equity of a trader subaccount, cached for TRADER_EQUITY_TTL milliseconds.
+ * @param {string} address - The dYdX address of the trader.
+ * @param {number} subaccount - The subaccount number of the address.
+ * @returns {Promise<Decimal>} - The equity of the subaccount.
+ */
+async function getTraderEquity(
+  address: string,
+  subaccount: number
+): Promise<Decimal> {
+  const key = `${address}/${subaccount}`;
+  const cached = TRADER_EQUITIES.get(key);
+  if (cached && Date.now() - cached.fetchedAt < TRADER_EQUITY_TTL) {
+    return toDecimal(cached.equity);
+  }
+
+  const equity = await getSubaccountEquity(address, subaccount);
+  TRADER_EQUITIES.set(key, { equity, fetchedAt: Date.now() });
+  return toDecimal(equity);
+}
+
+/**
+ * Gets the scale applied to the positions of a trader for a follower: the fixed ratio,
+ * or the equity of the follower over the equity of the trader.
+ * @param {FollowerInterface} follower - The follower.
+ * @param {TradeEventInterface} event - The trade event of the trader.
+ * @returns {Promise<Decimal>} - The scale, zero if the trader has no equity.
+ */
+async function getScale(
+  follower: FollowerInterface,
+  event: TradeEventInterface
+): Promise<Decimal> {
+  if (follower.sizing === "ratio") return toDecimal(follower.ratio);
+
+  const equity = await getTraderEquity(
+    event.trader.address,
+    event.trader.subaccount
+  );
+  if (!equity.greaterThan(0)) return new Decimal(0);
+  return toDecimal(follower.equity).div(equity);
+}
+
+/**
+ * Limits the target size of a follower position by the cap of its token and the maximum
+ * leverage of the follower, counting the notional of its other positions.
+ * @param {FollowerInterface} follower - The follower.
+ * @param {string} key - The key of the follower position.
+ * @param {string} token - The token of the position.
+ * @param {Decimal} target - The signed target size of the position.
+ * @param {Decimal} price - The reference price of the position.
+ * @returns {Decimal} - The signed target size, within the limits of the follower.
+ */
+function applyLimits(
+  follower: FollowerInterface,
+  key: string,
+  token: string,
+  target: Decimal,
+  price: Decimal
+): Decimal {
+  let maxNotional: Decimal | null = null;
+
+  const cap = follower.caps?.[token];
+  if (cap !== undefined) maxNotional = toDecimal(cap);
+
+  if (follower.max_leverage !== undefined) {
+    let otherNotional = new Decimal(0);
+    new Set([
+      ...FOLLOWER_POSITIONS.keys(),
+      ...PENDING_POSITIONS.keys(),
+    ]).forEach((positionKey) => {
+      const position = getFollowerPosition(positionKey);
+      if (position?.follower !== follower.id || positionKey === key) return;
+      otherNotional = otherNotional.add(
+        toDecimal(position.size).abs().times(toDecimal(position.price))
+      );
+    });
+    const available = Decimal.max(
+      toDecimal(follower.equity)
+        .times(follower.max_leverage)
+        .minus(otherNotional),
+      0
+    );
+    maxNotional = maxNotional ? Decimal.min(maxNotional, available) : available;
+  }
+
+  if (maxNotional === null || price.isZero()) return target;
+  const maxSize = maxNotional.div(price);
+  return target.abs().greaterThan(maxSize)
+    ? maxSize.times(Decimal.sign(target))
+    : target;
+}
+
+/**
+ * Generates the order intent of a follower for a trade event. The position the follower is
+ * expected to hold only advances once the intent is committed (see commitOrderIntents), until
+ * then it is kept pending so the next events of the trader build on it.
+ * @param {FollowerInterface} follower - The follower.
+ * @param {TradeEventInterface} event - The trade event of a followed trader.
+ * @returns {Promise<OrderIntentInterface | null>} - The order intent, or null if the position of the follower doesn't change.
+ */
+async function generateOrderIntent(
+  follower: FollowerInterface,
+  event: TradeEventInterface
+): Promise<OrderIntentInterface | null> {
+  const trader = `${event.trader.address}/${event.trader.subaccount}`;
+  const key = `${follower.id}:${trader}:${event.token}`;
+  const current = getFollowerPosition(key);
+  const current_size = toDecimal(current?.size);
+
+  // Closed positions don't carry a price, the last known one is used instead
+  const price = toDecimal(event.price ?? current?.price);
+  if (!price.greaterThan(0)) return null;
+
+  // Position of the trader after the change, signed by its side
+  const trader_size = toDecimal(event.size).times(
+    event.side === "LONG" ? 1 : -1
+  );
+  let target = new Decimal(0);
+  if (!trader_size.isZero()) {
+    const scale = await getScale(follower, event);
+    target = applyLimits(
+      follower,
+      key,
+      event.token,
+      trader_size.times(scale),
+      price
+    ).toDecimalPlaces(ORDER_SIZE_DECIMALS, Decimal.ROUND_DOWN);
+
+    // Limits never turn an increase of the trader into a reduction of the follower
+    if (
+      event.delta &&
+      toDecimal(event.delta).greaterThan(0) &&
+      target.abs().lessThan(current_size.abs()) &&
+      Decimal.sign(target) === Decimal.sign(current_size)
+    ) {
+      return null;
+    }
+  }
+
+  const delta = target.minus(current_size);
+  if (delta.isZero()) return null;
+
+  const intent_id = `${follower.id}:${event.dedup_key}`;
+  PENDING_POSITIONS.set(key, {
+    intent_id,
+    position: target.isZero()
+      ? null
+      : {
+          follower: follower.id,
+          trader,
+          token: event.token,
+          size: target.toString(),
+          price: price.toString(),
+        },
+  });
+
+  return {
+    version: 1,
+    type: "order_intent",
+    intent_id,
+    follower: follower.id,
+    market: event.token.replace(/USD$/, "-USD"),
+    side: delta.greaterThan(0) ? "BUY" : "SELL",
+    size: delta.abs().toString(),
+    // Orders only reducing the position must not open the other side
+    reduce_only:
+      target.isZero() ||
+      (Decimal.sign(target) === Decimal.sign(current_size) &&
+        target.abs().lessThan(current_size.abs())),
+    reference_price: price.toString(),
+    target_size: target.toString(),
+    source: {
+      trade_id: event.trade_id,
+      event: event.event,
+      user: event.trader.user,
+      address: event.trader.address,
+      subaccount: event.trader.subaccount,
+      size: trader_size.toString(),
+    },
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Converts a trade event into the order intents of the followers of the trader: the
+ * position of the trader after the change is scaled to every follower (fixed ratio or
+ * relative equity), limited by its per-token caps and maximum leverage, and the intent is
+ * the difference with the position the follower is expected to hold.
+ *
+ * @param {TradeEventInterface} event - The trade event.
+ * @param {FollowerInterface[]} [followers=FOLLOWERS] - The followers to generate intents for.
+ * @returns {Promise<OrderIntentInterface[]>} - The order intents of the event.
+ */
+export async function generateOrderIntents(
+  event: TradeEventInterface,
+  followers: FollowerInterface[] = FOLLOWERS
+): Promise<OrderIntentInterface[]> {
+  const intents: OrderIntentInterface[] = [];
+  const trader = `${event.trader.address}/${event.trader.subaccount}`;
+
+  for (const follower of followers) {
+    if (
+      !follower.traders?.includes(trader) &&
+      !follower.users?.includes(event.trader.user)
+    ) {
+      continue;
+    }
+
+    try {
+      const intent = await generateOrderIntent(follower, event);
+      if (intent) intents.push(intent);
+    } catch (error) {
+      console.error(
+        `Error generating order intent of follower ${follower.id}:`,
+        error
+      );
+    }
+  }
+  return intents;
+}
+
+/**
+ * Advances the positions the followers are expected to hold to the targets of order intents
+ * committed to the outbox, and records them in the journal. Committing an intent again (a
+ * batch retried after a crash) is harmless, as the targets are absolute sizes.
+ * @param {OrderIntentInterface[]} intents - The committed order intents, in order.
+ */
+export function commitOrderIntents(intents: OrderIntentInterface[]) {
+  if (intents.length === 0) return;
+
+  intents.forEach((intent) => {
+    const key = getIntentKey(intent);
+    const target = toDecimal(intent.target_size);
+    if (target.isZero()) FOLLOWER_POSITIONS.delete(key);
+    else {
+      FOLLOWER_POSITIONS.set(key, {
+        follower: intent.follower,
+        trader: `${intent.source.address}/${intent.source.subaccount}`,
+        token: intent.market.replace("-", ""),
+        size: intent.target_size,
+        price: intent.reference_price,
+      });
+    }
+    if (PENDING_POSITIONS.get(key)?.intent_id === intent.intent_id) {
+      PENDING_POSITIONS.delete(key);
+    }
+  });
+  rewriteJournal(
+    FOLLOWER_POSITIONS_FILE,
+    Array.from(FOLLOWER_POSITIONS.values())
+  );
+}
+
+/**
+ * Drops the pending positions of order intents that will never be committed (dead-lettered),
+ * so the next intents are computed from the committed positions again.
+ * @param {OrderIntentInterface[]} intents - The discarded order intents.
+ */
+export function discardOrderIntents(intents: OrderIntentInterface[]) {
+  intents.forEach((intent) => {
+    const key = getIntentKey(intent);
+    if (PENDING_POSITIONS.get(key)?.intent_id === intent.intent_id) {
+      PENDING_POSITIONS.delete(key);
+    }
+  });
+}
@@ -1,127 +1,67 @@
-import { Pool, PoolConnection } from "mysql2/promise";
 import { connectDatabase } from "../config/database";
-
-const pool: Pool = connectDatabase();
-
-const MAX_RETRIES = 5;
-const INITIAL_RETRY_DELAY = 1000; // Initial delay of 1 second
-
-// Utility function to pause execution for a given duration
-function delay(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+import { SqlDialectInterface } from "../constants/interfaces";
 
 /**
- * Executes an SQL query against a database using a connection pool.
- * This function abstracts the execution process, handling both parameterized and non-parameterized queries.
- * It is designed to work with asynchronous database operations, returning a promise that resolves
- * with the query results or rejects with an error if the query fails.
+ * Checks whether an SQL error is caused by the data itself (invalid values, broken
+ * constraints...) rather than by the database being unavailable, so retrying it is useless.
  *
- * @param {string} query - The SQL query string to be executed. It can contain placeholders for parameterized queries.
- * @param {any[]} [values] - An optional array of values to be used with parameterized queries. Each value in this array corresponds to a placeholder in the query string.
- * @returns {Promise<any>} - A promise that resolves with the results of the query. The structure of the results depends on the database driver being used but typically includes rows returned by the query.
- * @throws {Error} - Throws an error if the query execution fails, containing information about the failure.
+ * @param {any} error - The error raised by the query.
+ * @returns {boolean} - Whether the error is permanent.
  */
-export async function sqlQuery(query: string, values?: any[]): Promise<any> {
-  try {
-    const [results] = await pool.execute(query, values);
-    return results;
-  } catch (error) {
-    console.error("Database query error:", error);
-    throw error; // Rethrow the error for the caller to handle
-  }
+export function isPermanentSqlError(error: any): boolean {
+  return connectDatabase().isPermanentError(error);
 }
 
 /**
- * Executes an SQL btach query against a database using a connection pool.
+ * Gets the SQL dialect of the storage client, for the parts of the queries that differ
+ * between MySQL, PostgreSQL and SQLite (dates, upserts...).
  *
- * @param {string} query - The SQL query string to be executed. It can contain placeholders for parameterized queries.
- * @param {any[]} [values] - An optional array of values to be used with parameterized queries. Each value in this array corresponds to a placeholder in the query string.
- * @returns {Promise<any>} - A promise that resolves with the results of the query. The structure of the results depends on the database driver being used but typically includes rows returned by the query.
- * @throws {Error} - Throws an error if the query execution fails, containing information about the failure.
+ * @returns {SqlDialectInterface} - The dialect of the storage client.
  */
-export async function sqlBatchQuery(
-  query: string,
-  values?: any[]
-): Promise<any> {
-  let attempt = 1;
-  let delayMs = INITIAL_RETRY_DELAY;
-
-  while (attempt <= MAX_RETRIES) {
-    try {
-      const [results] = await pool.query(query, [values]);
-      return results;
-    } catch (error: any) {
-      if (error.code === "ER_LOCK_DEADLOCK" && attempt < MAX_RETRIES) {
-        console.error(
-          `Deadlock detected. Retrying attempt ${attempt} of ${MAX_RETRIES} after ${delayMs}ms...`
-        );
-        await delay(delayMs);
-        delayMs *= 2; // Exponential backoff
-        attempt++;
-      } else {
-        console.error("Database query error:", error);
-        throw error; // Rethrow the error for the caller to handle
-      }
-    }
-  }
+export function getDialect(): SqlDialectInterface {
+  return connectDatabase().dialect;
 }
 
 /**
- * Initiates a new database transaction.
- *
- * This function retrieves a connection from the pool and starts a new transaction on that connection.
- * It ensures that multiple operations can be executed as a single transactional unit, providing atomicity.
+ * Executes an SQL query against the storage client selected by DB_CLIENT.
+ * Placeholders are written `?` whatever the client, and the rows selected are returned.
  *
- * @returns {Promise<PoolConnection>} A promise that resolves with the database connection with an open transaction.
- */
-export async function startTransaction(): Promise<PoolConnection> {
-  const connection = await pool.getConnection();
-  try {
-    await connection.beginTransaction();
-  } catch (error) {
-    connection.release(); // Ensure connection is released if beginTransaction fails
-    throw error;
-  }
-  return connection;
-}
-
-/**
- * Commits the current transaction.
- *
- * This function commits all operations performed within the transaction, making them permanent in the database.
- * It then releases the connection back to the pool, making it available for other operations.
- *
- * @param {PoolConnection} connection - The database connection with an open transaction to commit.
+ * @param {string} query - The SQL query string to be executed. It can contain placeholders for parameterized queries.
+ * @param {any[]} [values] - An optional array of values to be used with parameterized queries. Each value in this array corresponds to a placeholder in the query string.
+ * @returns {Promise<any[]>} - A promise that resolves with the rows returned by the query.
+ * @throws {Error} - Throws an error if the query execution fails, containing information about the failure.
  */
-export async function commitTransaction(connection: PoolConnection) {
+export async function sqlQuery(query: string, values?: any[]): Promise<any[]> {
   try {
-    await connection.commit();
+    const { rows } = await connectDatabase().query(query, values);
+    return rows;
   } catch (error) {
-    console.error("Failed to commit transaction:", error);
-    throw error;
-  } finally {
-    connection.release();
+    console.error("Database query error:", error);
+    throw error; // Rethrow the error for the caller to handle
   }
 }
 
 /**
- * Rolls back the current transaction.
- *
- * This function undoes all operations performed within the transaction, maintaining database integrity.
- * It is typically used in error handling to revert changes when an operation within the transaction fails.
- * The connection is then released back to the pool.
+ * Executes an SQL statement writing rows against the storage client selected by DB_CLIENT.
  *
- * @param {PoolConnection} connection - The database connection with an open transaction to roll back.
+ * @param {string} query - The SQL statement to be executed, with `?` placeholders.
+ * @param {any[]} [values] - An optional array of values of the placeholders.
+ * @returns {Promise<Object>} - A promise that resolves with the number of rows written and the id generated by an insert.
+ * @throws {Error} - Throws an error if the statement fails, containing information about the failure.
  */
-export async function rollbackTransaction(connection: PoolConnection) {
+export async function sqlExecute(
+  query: string,
+  values?: any[]
+): Promise<{ affectedRows: number; insertId: number | null }> {
   try {
-    await connection.rollback();
+    const { affectedRows, insertId } = await connectDatabase().query(
+      query,
+      values
+    );
+    return { affectedRows, insertId };
   } catch (error) {
-    console.error("Failed to rollback transaction:", error);
-    throw error;
-  } finally {
-    connection.release();
+    console.error("Database query error:", error);
+    throw error; // Rethrow the error for the caller to handle
   }
 }
 
@@ -0,0 +1,108 @@
+import Decimal from "decimal.js";
+import {
+  CLOSE_REASON_DELEVERAGED,
+  CLOSE_REASON_LIQUIDATED,
+  TRADE_EVENT_VERSION,
+} from "../constants";
+import { TradeEventInterface } from "../constants/interfaces";
+import { toDecimal } from "./pnl";
+
+/**
+ * Gets the kind of event of a trade closed, from the reason it was closed.
+ * @param {string | null} close_reason - The close reason of the trade.
+ * @returns {string} - "liquidated" or "deleveraged" for trades closed by the protocol, "closed" otherwise.
+ */
+export function getCloseEvent(close_reason: string | null): string {
+  if (close_reason === CLOSE_REASON_LIQUIDATED) return "liquidated";
+  if (close_reason === CLOSE_REASON_DELEVERAGED) return "deleveraged";
+  return "closed";
+}
+
+/**
+ * Gets the kind of event of an open trade changing its size.
+ * @param {Decimal.Value} previous_size - The size of the position before the change.
+ * @param {Decimal.Value} size - The size of the position after the change.
+ * @returns {string | null} - "increased" or "reduced", or null if the size didn't change.
+ */
+export function getUpdateEvent(
+  previous_size: Decimal.Value,
+  size: Decimal.Value
+): string | null {
+  const delta = toDecimal(size).abs().minus(toDecimal(previous_size).abs());
+  if (delta.isZero()) return null;
+  return delta.greaterThan(0) ? "increased" : "reduced";
+}
+
+/**
+ * Builds the versioned payload of a trade event, carrying the snapshot of the trade right
+ * after the change so consumers don't need to query the trade back.
+ *
+ * @param {string} event - The kind of event: opened, increased, reduced, flipped, closed, liquidated or deleveraged.
+ * @param {any} trader_position - The trader position after the change.
+ * @param {Decimal.Value} previous_size - The size of the position before the change.
+ * @param {Decimal.Value} size - The size of the position after the change (0 once closed).
+ * @param {string | null} price - The average entry price for opened and increased trades,
+ * and the average exit price for the rest.
+ * @returns {TradeEventInterface} - The payload of the event.
+ */
+export function buildTradeEvent(
+  event: string,
+  trader_position: any,
+  previous_size: Decimal.Value,
+  size: Decimal.Value,
+  price: string | null
+): TradeEventInterface {
+  const previous = toDecimal(previous_size).abs();
+  const current = toDecimal(size).abs();
+
+  // Size changes are told apart by the amounts opened and closed so far
+  const dedup_key =
+    event === "increased" || event === "reduced"
+      ? `${trader_position.trade_id}:${event}:${trader_position.sum_open}/${trader_position.sum_close}`
+      : `${trader_position.trade_id}:${event}`;
+
+  return {
+    version: TRADE_EVENT_VERSION,
+    type: "dydx",
+    event,
+    dedup_key,
+    trade_id: trader_position.trade_id,
+    trader: {
+      user: trader_position.user,
+      address: trader_position.trader_address,
+      subaccount: trader_position.subaccount,
+    },
+    token: trader_position.token,
+    side: trader_position.bias === 1 ? "LONG" : "SHORT",
+    previous_size: previous.toString(),
+    size: current.toString(),
+    delta: current.minus(previous).toString(),
+    price,
+    pnl: {
+      gross_pnl: trader_position.gross_pnl,
+      fees: trader_position.fees,
+      funding: trader_position.funding,
+      net_pnl: trader_position.net_pnl,
+    },
+    trade: {
+      trade_id: trader_position.trade_id,
+      token: trader_position.token,
+      bias: trader_position.bias,
+      size: trader_position.size,
+      sum_open: trader_position.sum_open,
+      sum_close: trader_position.sum_close,
+      limit_price: trader_position.limit_price,
+      exit_price: trader_position.exit_price,
+      start_date: trader_position.start_date,
+      end_date: trader_position.end_date,
+      funding: trader_position.funding,
+      gross_pnl: trader_position.gross_pnl,
+      fees: trader_position.fees,
+      net_pnl: trader_position.net_pnl,
+      pnl: trader_position.pnl,
+      is_profitable: trader_position.is_profitable,
+      close_reason: trader_position.close_reason ?? null,
+    },
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -1,11 +1,23 @@
-import { parseUnits } from "ethers/lib/utils";
-import { getSqlDate, sqlBatchQuery } from "./database";
-import { SQL_TRADES_DEX, SQL_USERS_STATS } from "../constants/tables";
-import { AMOUNT_DECIMALS, PRICE_DECIMALS } from "../constants";
-import { PoolConnection } from "mysql2/promise";
+import { formatUnits, parseUnits } from "ethers/lib/utils";
+import { getSqlDate } from "./database";
+import { getStorage } from "../storage";
+import {
+  AMOUNT_DECIMALS,
+  CLOSE_REASON_DELEVERAGED,
+  CLOSE_REASON_FLIPPED,
+  CLOSE_REASON_LIQUIDATED,
+  CLOSE_REASON_MANUAL,
+  PRICE_DECIMALS,
+} from "../constants";
+import {
+  DEFAULT_SUBACCOUNT,
+  DELEVERAGED_FILL_TYPE,
+  LIQUIDATED_FILL_TYPE,
+} from "../constants/dydx";
 import Decimal from "decimal.js";
-import { aggregatePositions } from "../services/processor";
-import { sendMessage } from "./messaging";
+import { aggregateFill, aggregatePositions } from "../services/processor";
+import { computePnl, toDecimal } from "./pnl";
+import { buildTradeEvent, getCloseEvent, getUpdateEvent } from "./events";
 import { TG_NOTIFICATION_DURATION, TG_TRADES_QUEUE } from "../constants/queues";
 
 /**
@@ -29,6 +41,52 @@ export const convertToDecimal = async (amount: string, decimals: number) => {
   return await parseUnits(adjustedAmount, decimals).toString();
 };
 
+/**
+ * Converts an amount stored in its decimal form back into its string representation,
+ * reversing convertToDecimal.
+ *
+ * @param {string} amount - The amount in its decimal form, as stored in the database.
+ * @param {number} decimals - The number of decimal places the amount was stored with.
+ * @returns {string} The amount as a string, or null if no amount is given.
+ */
+export const convertFromDecimal = (amount: string | null, decimals: number) => {
+  if (amount === null || amount === undefined) return null;
+  return formatUnits(amount, decimals);
+};
+
+/**
+ * Builds the unique trade id of a position. Positions of subaccount 0 keep the
+ * original id format so trades stored before subaccounts were tracked keep their ids.
+ *
+ * @param {string} address - The trader's blockchain address.
+ * @param {number} subaccount - The subaccount number holding the position.
+ * @param {string} symbol - The symbol of the market of the position.
+ * @param {string} side - The side of the position (LONG or SHORT).
+ * @param {string} blockHeight - The block height at which the position was created.
+ * @returns {string} - The trade id of the position.
+ */
+export function getTradeId(
+  address: string,
+  subaccount: number,
+  symbol: string,
+  side: string,
+  blockHeight: string
+): string {
+  const account =
+    subaccount === DEFAULT_SUBACCOUNT ? address : `${address}/${subaccount}`;
+  return `${account}-${symbol}-${side}-${blockHeight}`;
+}
+
+/**
+ * Extracts the block height at which a position was created from its trade id.
+ *
+ * @param {string} trade_id - The trade id of the position.
+ * @returns {number} - The block height of the trade id, or NaN if it can't be parsed.
+ */
+export function getTradeHeight(trade_id: string): number {
+  return Number(trade_id.split("-").pop());
+}
+
 /**
  * Creates a new trader position object based on market transaction data and prepares it for database insertion.
  * This function handles the computation of the trade ID, realized PnL, and other relevant trading parameters
@@ -37,35 +95,50 @@ export const convertToDecimal = async (amount: string, decimals: number) => {
  * @param {number} user - The id corresponding the user for the given trader.
  * @param {Object} position - The market position data containing details like market, entry/exit prices, etc.
  * @param {string} address - The trader's blockchain address.
+ * @param {number} subaccount - The subaccount number holding the position.
  * @param {string} [blockHeight=null] - The block height at which the position was created, if not provided, uses position.createdAtHeight.
  * @param {string} [createdAt=null] - The creation time of the position, if not provided, defaults to the current time.
+ * @param {string} [type="open"] - The type of change, "open" for new trades or "update" for trades already open.
+ * @param {string} [fees="0"] - The trading fees paid by the fills opening the position.
  * @returns {Object} - An object containing arrays for database insertion and the newly created position object.
  */
 export async function createNewPosition(
   user: number,
   position: any,
   address: string | any,
+  subaccount: number,
   blockHeight: string | any = null,
   createdAt: string | any = null,
-  type = "open"
+  type = "open",
+  fees = "0"
 ) {
   const symbol = position.market.replace(/-/g, "");
   blockHeight = blockHeight ? blockHeight : position.createdAtHeight;
   createdAt = createdAt ? createdAt : position.createdAt;
 
-  // Calculate realized PnL if exit price and entry price are available
-  let realised_pnl =
-    position.exitPrice && position.entryPrice
-      ? position.sumClose *
-        (Number(position.exitPrice) - Number(position.entryPrice))
-      : 0;
-  realised_pnl = position.side === "LONG" ? realised_pnl : -realised_pnl;
+  // Calculate realized PnL of the closed part, if any
+  const pnl = computePnl(
+    position.side === "LONG"
+      ? position.sumClose
+      : toDecimal(position.sumClose).neg(),
+    position.entryPrice,
+    position.exitPrice,
+    fees,
+    position.netFunding
+  );
 
   // Prepare trader position data for database insertion
   const trader_position = {
     user,
-    trade_id: `${address}-${symbol}-${position.side}-${blockHeight}`,
+    trade_id: getTradeId(
+      address,
+      subaccount,
+      symbol,
+      position.side,
+      blockHeight
+    ),
     trader_address: address,
+    subaccount,
     token: symbol,
     bias: position.side === "LONG" ? 1 : 0,
     size: position.size,
@@ -75,14 +148,30 @@ export async function createNewPosition(
     exit_price: position.exitPrice,
     start_date: createdAt,
     end_date: null,
-    funding: position.netFunding,
-    realised_pnl: realised_pnl.toString(),
+    funding: pnl.funding,
+    realised_pnl: pnl.gross_pnl,
+    gross_pnl: pnl.gross_pnl,
+    fees: pnl.fees,
+    net_pnl: pnl.net_pnl,
     pnl: "0",
     is_profitable: 0,
+    close_reason: null,
     type,
   };
 
-  await aggregatePositions(trader_position);
+  // Positions seeded from a snapshot were opened before, they are not announced
+  await aggregatePositions(
+    trader_position,
+    type === "open"
+      ? buildTradeEvent(
+          "opened",
+          trader_position,
+          "0",
+          position.size,
+          position.entryPrice
+        )
+      : null
+  );
   return trader_position;
 }
 
@@ -94,18 +183,26 @@ export async function createNewPosition(
  *
  * @param {any} trader_position - The current trader position object to be updated.
  * @param {any} position - The new trading data that includes details like prices, size, and funding.
+ * @param {string} [fees="0"] - The trading fees paid by the fills updating the position.
  * @returns {Promise<any>} - The updated trader position object with recalculated metrics.
  */
 export async function updateExistingPosition(
   trader_position: any,
-  position: any
+  position: any,
+  fees = "0"
 ) {
-  let realised_pnl =
-    position.exitPrice && position.entryPrice
-      ? position.sumClose *
-        (Number(position.exitPrice) - Number(position.entryPrice))
-      : 0;
-  realised_pnl = position.side === "LONG" ? realised_pnl : -realised_pnl;
+  const pnl = computePnl(
+    position.side === "LONG"
+      ? position.sumClose
+      : toDecimal(position.sumClose).neg(),
+    position.entryPrice,
+    position.exitPrice,
+    toDecimal(trader_position.fees).add(fees),
+    position.netFunding
+  );
+
+  const previous_size = trader_position.size;
+  const event = getUpdateEvent(previous_size, position.size);
 
   // Update data on trader position
   trader_position.size = position.size;
@@ -113,13 +210,27 @@ export async function updateExistingPosition(
   trader_position.sum_close = position.sumClose;
   trader_position.limit_price = position.entryPrice;
   trader_position.exit_price = position.exitPrice;
-  trader_position.funding = position.netFunding;
-  trader_position.realised_pnl = realised_pnl.toString();
+  trader_position.funding = pnl.funding;
+  trader_position.realised_pnl = pnl.gross_pnl;
+  trader_position.gross_pnl = pnl.gross_pnl;
+  trader_position.fees = pnl.fees;
+  trader_position.net_pnl = pnl.net_pnl;
   trader_position.pnl = "0";
   trader_position.is_profitable = 0;
   trader_position.type = "update";
 
-  await aggregatePositions(trader_position);
+  await aggregatePositions(
+    trader_position,
+    event
+      ? buildTradeEvent(
+          event,
+          trader_position,
+          previous_size,
+          position.size,
+          event === "increased" ? position.entryPrice : position.exitPrice
+        )
+      : null
+  );
   return trader_position;
 }
 
@@ -131,13 +242,15 @@ export async function updateExistingPosition(
  * @param {Object} trader_position - The current position object of the trader before the flip.
  * @param {Object} position - The new position details including entry price, sum open, etc.
  * @param {string} end_date - The date at which the position is considered flipped.
+ * @param {string} [fees="0"] - The part of the trading fees of the flipping fills paid to close the position.
  * @returns {Array} - An array of updated parameters ready to be used in SQL queries or further processing.
  * @throws {Error} - Throws an error if the calculation fails, to be caught by the caller.
  */
 export async function flipPosition(
   trader_position: any,
   position: any,
-  end_date: string
+  end_date: string,
+  fees = "0"
 ) {
   try {
     // Compute the amount moved to the other position
@@ -163,24 +276,42 @@ export async function flipPosition(
       last_position
     ); // Add the closing size
     adjusted_size =
-      trader_position.bias == 0
-        ? new Decimal(-adjusted_size)
-        : new Decimal(adjusted_size);
+      trader_position.bias == 0 ? adjusted_size.neg() : adjusted_size;
 
     // Compute pnl
-    let pnl = adjusted_size
-      .times(avg_close.minus(trader_position.limit_price))
-      .add(trader_position.funding);
+    const pnl = computePnl(
+      adjusted_size,
+      trader_position.limit_price,
+      avg_close,
+      toDecimal(trader_position.fees).add(fees),
+      trader_position.funding
+    );
 
+    const previous_size = trader_position.size;
     trader_position.size = adjusted_size.toString();
     trader_position.exit_price = avg_close.toString();
     trader_position.end_date = end_date;
     trader_position.realised_pnl = "0";
-    trader_position.pnl = pnl.toString();
-    trader_position.is_profitable = pnl.greaterThan(0) ? 1 : 0;
+    trader_position.gross_pnl = pnl.gross_pnl;
+    trader_position.fees = pnl.fees;
+    trader_position.net_pnl = pnl.net_pnl;
+    trader_position.pnl = pnl.net_pnl;
+    trader_position.is_profitable = new Decimal(pnl.net_pnl).greaterThan(0)
+      ? 1
+      : 0;
+    trader_position.close_reason = CLOSE_REASON_FLIPPED;
     trader_position.type = "close";
 
-    await aggregatePositions(trader_position);
+    await aggregatePositions(
+      trader_position,
+      buildTradeEvent(
+        "flipped",
+        trader_position,
+        previous_size,
+        "0",
+        trader_position.exit_price
+      )
+    );
     return;
   } catch (error) {
     console.error(`Error updating position during flip: ${error}`);
@@ -192,36 +323,60 @@ export async function flipPosition(
  * Closes an existing trading position by updating its status and calculating the final profit or loss (PnL).
  * This function updates the position's size, open sum, prices, and sets the end date, marking it as closed.
  *
- * @param {PoolConnection} connection - Database connection to perform SQL queries within a transaction.
  * @param {any} trader_position - Current details of the trader's position.
  * @param {any} position - Details of the trading position to be closed.
  * @param {string} end_date - The date when the position is officially closed.
+ * @param {string} [fees="0"] - The trading fees paid by the fills closing the position.
+ * @param {string} [close_reason="manual"] - Why the position was closed (manual, liquidated or deleveraged).
  */
 export async function closePosition(
   trader_position: any,
   position: any,
-  end_date: string
+  end_date: string,
+  fees = "0",
+  close_reason = CLOSE_REASON_MANUAL
 ) {
   try {
     // Calculate the size and pnl based on the trading direction
     let size =
       position.side === "LONG"
         ? new Decimal(position.sumClose)
-        : new Decimal(-position.sumClose);
-    let pnl = size.times(
-      new Decimal(position.exitPrice).minus(position.entryPrice)
+        : new Decimal(position.sumClose).neg();
+    const pnl = computePnl(
+      size,
+      position.entryPrice,
+      position.exitPrice,
+      toDecimal(trader_position.fees).add(fees),
+      position.netFunding
     );
 
+    const previous_size = trader_position.size;
     trader_position.size = size.toString();
     trader_position.limit_price = position.entryPrice;
     trader_position.exit_price = position.exitPrice;
     trader_position.end_date = end_date;
+    trader_position.funding = pnl.funding;
     trader_position.realised_pnl = "0";
-    trader_position.pnl = pnl.toString();
-    trader_position.is_profitable = pnl.greaterThan(0) ? 1 : 0;
+    trader_position.gross_pnl = pnl.gross_pnl;
+    trader_position.fees = pnl.fees;
+    trader_position.net_pnl = pnl.net_pnl;
+    trader_position.pnl = pnl.net_pnl;
+    trader_position.is_profitable = new Decimal(pnl.net_pnl).greaterThan(0)
+      ? 1
+      : 0;
+    trader_position.close_reason = close_reason;
     trader_position.type = "close";
 
-    await aggregatePositions(trader_position);
+    await aggregatePositions(
+      trader_position,
+      buildTradeEvent(
+        getCloseEvent(close_reason),
+        trader_position,
+        previous_size,
+        "0",
+        trader_position.exit_price
+      )
+    );
     return;
   } catch (error) {
     console.error(`Error updating position during close: ${error}`);
@@ -229,63 +384,100 @@ export async function closePosition(
   }
 }
 
+/**
+ * Gets the reason a position was closed from the fills closing it. Positions closed by the
+ * protocol on behalf of the trader are recognised by the type of their fills.
+ *
+ * @param {any[]} fills - The fills closing the position, as received from dYdX.
+ * @returns {string} - The close reason: liquidated, deleveraged or manual.
+ */
+export function getCloseReason(fills: any[]): string {
+  if (fills.some((fill: any) => fill.type === LIQUIDATED_FILL_TYPE))
+    return CLOSE_REASON_LIQUIDATED;
+  if (fills.some((fill: any) => fill.type === DELEVERAGED_FILL_TYPE))
+    return CLOSE_REASON_DELEVERAGED;
+  return CLOSE_REASON_MANUAL;
+}
+
+/**
+ * Records the fills of a position change in the fills ledger, linked to the trade they
+ * contributed to. Fills without an id (e.g. synthesized when catching up with a
+ * subscription snapshot) are skipped.
+ *
+ * @param {number} user - The id corresponding the user for the given trader.
+ * @param {string} address - The trader's blockchain address.
+ * @param {number} subaccount - The subaccount number holding the position.
+ * @param {string} trade_id - The trade the fills contributed to.
+ * @param {any[]} fills - The fills data as received from dYdX.
+ */
+export async function recordFills(
+  user: number,
+  address: string,
+  subaccount: number,
+  trade_id: string,
+  fills: any[]
+) {
+  for (const fill of fills) {
+    if (!fill.id) continue;
+    await aggregateFill({
+      fill_id: fill.id,
+      trade_id,
+      user,
+      trader_address: address,
+      subaccount,
+      token: (fill.market ?? fill.ticker).replace(/-/g, ""),
+      order_id: fill.orderId ?? null,
+      side: fill.side,
+      size: fill.size,
+      price: fill.price,
+      fee: fill.fee ?? "0",
+      liquidity: fill.liquidity,
+      fill_type: fill.type,
+      block_height: Number(fill.createdAtHeight),
+      created_at: fill.createdAt,
+    });
+  }
+}
+
 /**
  * Processes new positions in the database.
- * Inserts provided positions into the database.
- * @param {any} positions - Positions to be created.
- * @param {number} user - User ID associated with the positions.
+ * Inserts provided positions and fills into the database, along with the notifications of the
+ * trade events and alerts in the outbox, in a single transaction. Notifications are published
+ * afterwards by dispatchNotifications, so they never reference a trade not committed.
+ * Every trade row carries the event to notify, if any, right before its type.
+ * @param {any} positions - Positions (and fills and notifications) to be created.
  */
 export async function processPositions(positions: any) {
   if (!positions || positions.length < 1) return;
-  const newPositions = positions.map((position: any) => {
-    if (
-      position[position.length - 1] === "open" ||
-      position[position.length - 1] === "close"
-    ) {
-      const message = JSON.stringify({
-        trade_id: position[1],
-        type: "dydx",
-      });
-      console.log(message);
-      sendMessage(TG_TRADES_QUEUE, message, TG_NOTIFICATION_DURATION);
-    }
-    return position.slice(0, -1);
-  });
+  const getType = (row: any) => row[row.length - 1];
+  const newFills = positions
+    .filter((row: any) => getType(row) === "fill")
+    .map((fill: any) => fill.slice(0, -1));
+  const notifications: any[] = [];
+  const newPositions = positions
+    .filter(
+      (row: any) => getType(row) !== "fill" && getType(row) !== "notification"
+    )
+    .map((position: any) => {
+      const event = position[position.length - 2];
+      if (event) {
+        notifications.push([
+          event.dedup_key,
+          TG_TRADES_QUEUE,
+          JSON.stringify(event),
+          TG_NOTIFICATION_DURATION,
+        ]);
+      }
+      return position.slice(0, -2);
+    });
+  // Alerts and order intents are recorded after the events of the trades that triggered them
+  positions
+    .filter((row: any) => getType(row) === "notification")
+    .forEach((row: any) => notifications.push(row.slice(0, -1)));
 
-  await sqlBatchQuery(
-    `
-      INSERT INTO ${SQL_TRADES_DEX} (
-        user,
-        trade_id,
-        trader_address,
-        token,
-        bias,
-        size,
-        sum_open,
-        limit_price,
-        exit_price,
-        start_date,
-        end_date,
-        funding,
-        realised_pnl,
-        pnl,
-        is_profitable,
-        timestamp
-      ) 
-      VALUES ?
-      ON DUPLICATE KEY UPDATE 
-        size = VALUES(size),
-        sum_open = VALUES(sum_open),
-        limit_price = VALUES(limit_price),
-        exit_price = VALUES(exit_price),
-        start_date = VALUES(start_date),
-        end_date = VALUES(end_date),
-        funding = VALUES(funding),
-        realised_pnl = VALUES(realised_pnl),
-        pnl = VALUES(pnl),
-        is_profitable = VALUES(is_profitable),
-        timestamp = VALUES(timestamp)
-    `,
-    newPositions
-  );
+  await getStorage().trades.save({
+    trades: newPositions,
+    fills: newFills,
+    notifications,
+  });
 }
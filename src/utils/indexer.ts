@@ -0,0 +1,129 @@
+import { AxiosInstance } from "axios";
+import { connectIndexer } from "../config/indexer";
+import {
+  DydxFillInterface,
+  DydxPositionInterface,
+} from "../constants/interfaces";
+
+const client: AxiosInstance = connectIndexer();
+
+/**
+ * Fetches the numbers of every subaccount the indexer knows for an address,
+ * including isolated-margin subaccounts (128+).
+ *
+ * @param {string} address - The dYdX address of the trader.
+ * @returns {Promise<number[]>} - A promise that resolves with the subaccount numbers of the address.
+ * @throws {Error} - Throws an error if the request to the indexer fails.
+ */
+export async function getAddressSubaccounts(
+  address: string
+): Promise<number[]> {
+  try {
+    const { data } = await client.get(`/addresses/${address}`);
+    return (data?.subaccounts || []).map((subaccount: any) =>
+      Number(subaccount.subaccountNumber)
+    );
+  } catch (error: any) {
+    // Addresses without any activity are unknown to the indexer
+    if (error.response?.status === 404) return [];
+    console.error(`Error fetching subaccounts of ${address}:`, error.message);
+    throw error;
+  }
+}
+
+/**
+ * Fetches a page of the perpetual positions (open and closed) of a subaccount,
+ * sorted from the most recently created one.
+ *
+ * @param {string} address - The dYdX address of the trader.
+ * @param {number} subaccount - The subaccount number of the address.
+ * @param {number} limit - The maximum number of positions to return.
+ * @param {number} [createdBeforeOrAtHeight] - Optional. Only positions created at or before this block height are returned.
+ * @returns {Promise<DydxPositionInterface[]>} - A promise that resolves with the perpetual positions of the page.
+ * @throws {Error} - Throws an error if the request to the indexer fails.
+ */
+export async function getPerpetualPositions(
+  address: string,
+  subaccount: number,
+  limit: number,
+  createdBeforeOrAtHeight?: number
+): Promise<DydxPositionInterface[]> {
+  try {
+    const { data } = await client.get("/perpetualPositions", {
+      params: {
+        address,
+        subaccountNumber: subaccount,
+        limit,
+        ...(createdBeforeOrAtHeight && { createdBeforeOrAtHeight }),
+      },
+    });
+    return data?.positions || [];
+  } catch (error: any) {
+    console.error(
+      `Error fetching perpetual positions of ${address}/${subaccount}:`,
+      error.message
+    );
+    throw error;
+  }
+}
+
+/**
+ * Fetches a page of the fills of a subaccount, sorted from the most recent one.
+ *
+ * @param {string} address - The dYdX address of the trader.
+ * @param {number} subaccount - The subaccount number of the address.
+ * @param {number} limit - The maximum number of fills to return.
+ * @param {number} [createdBeforeOrAtHeight] - Optional. Only fills created at or before this block height are returned.
+ * @returns {Promise<DydxFillInterface[]>} - A promise that resolves with the fills of the page.
+ * @throws {Error} - Throws an error if the request to the indexer fails.
+ */
+export async function getFills(
+  address: string,
+  subaccount: number,
+  limit: number,
+  createdBeforeOrAtHeight?: number
+): Promise<DydxFillInterface[]> {
+  try {
+    const { data } = await client.get("/fills", {
+      params: {
+        address,
+        subaccountNumber: subaccount,
+        limit,
+        ...(createdBeforeOrAtHeight && { createdBeforeOrAtHeight }),
+      },
+    });
+    return data?.fills || [];
+  } catch (error: any) {
+    console.error(
+      `Error fetching fills of ${address}/${subaccount}:`,
+      error.message
+    );
+    throw error;
+  }
+}
+
+/**
+ * Fetches the equity of a subaccount, its collateral plus the value of its open positions.
+ *
+ * @param {string} address - The dYdX address of the trader.
+ * @param {number} subaccount - The subaccount number of the address.
+ * @returns {Promise<string>} - A promise that resolves with the equity of the subaccount, in USDC.
+ * @throws {Error} - Throws an error if the request to the indexer fails.
+ */
+export async function getSubaccountEquity(
+  address: string,
+  subaccount: number
+): Promise<string> {
+  try {
+    const { data } = await client.get(
+      `/addresses/${address}/subaccountNumber/${subaccount}`
+    );
+    return data?.subaccount?.equity ?? "0";
+  } catch (error: any) {
+    console.error(
+      `Error fetching equity of ${address}/${subaccount}:`,
+      error.message
+    );
+    throw error;
+  }
+}
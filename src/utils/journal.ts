@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Reads all the entries of a JSONL journal file. Lines that can't be parsed (e.g. a line
+ * partially written during a crash) are skipped.
+ *
+ * @param {string} file - The path of the journal file.
+ * @returns {any[]} - The entries of the journal, or an empty array if the file doesn't exist.
+ */
+export function readJournal(file: string): any[] {
+  if (!fs.existsSync(file)) return [];
+
+  const entries: any[] = [];
+  for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch (error) {
+      console.error(`Skipping corrupted line of journal ${file}`);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Appends entries to a JSONL journal file, creating it (and its directory) if needed.
+ *
+ * @param {string} file - The path of the journal file.
+ * @param {any[]} entries - The entries to append.
+ */
+export function appendToJournal(file: string, entries: any[]) {
+  if (entries.length === 0) return;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(
+    file,
+    entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n"
+  );
+}
+
+/**
+ * Replaces the content of a JSONL journal file. The new content is written to a
+ * temporary file first and then renamed, so the journal is never left half written.
+ *
+ * @param {string} file - The path of the journal file.
+ * @param {any[]} entries - The entries the journal should contain.
+ */
+export function rewriteJournal(file: string, entries: any[]) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmpFile = `${file}.tmp`;
+  fs.writeFileSync(
+    tmpFile,
+    entries.map((entry) => JSON.stringify(entry) + "\n").join("")
+  );
+  fs.renameSync(tmpFile, file);
+}
@@ -1,8 +1,25 @@
-import RabbitMQClient from "../config/messaging";
+import { NOTIFICATION_ROUTES } from "../constants";
+import { getSink, parseRoutes, resolveSinks } from "./sinks";
+
+// Sinks of the notifications, by queue and event
+const ROUTES = parseRoutes(NOTIFICATION_ROUTES);
 
 /**
- * Sends a message to the specified RabbitMQ queue. This function abstracts
- * away the details of connecting to RabbitMQ and publishing a message, providing
+ * Checks that every sink of the routes is known and configured, so a notification is never
+ * routed to a sink that can't be created.
+ * @throws {Error} If a route has no sink, or a sink is unknown or its configuration is missing.
+ */
+export function checkNotificationRoutes() {
+  for (const [key, sinks] of ROUTES) {
+    if (sinks.length === 0)
+      throw new Error(`No sink configured for the ${key} route`);
+    sinks.forEach((name) => getSink(name));
+  }
+}
+
+/**
+ * Sends a message to the sinks configured for its queue and event (RabbitMQ, webhooks,
+ * chat, file...). This function abstracts away the details of every sink, providing
  * a simple interface for message sending throughout the application.
  *
  * @param queueName The name of the queue to which the message will be sent. This
@@ -11,29 +28,57 @@ import RabbitMQClient from "../config/messaging";
  * @param messageContent The content of the message to be sent. This content is
  *                       expected to be a string, which can be structured as JSON
  *                       or any other format as required by the application logic.
- * @returns None. However, it logs the outcome of the message publishing attempt,
- *          indicating success or failure in the console.
+ *                       The `event` of JSON messages selects the sinks as well.
+ * @param expiration The expiration time for the message.
+ * @param messageId Optional. An id for the message, allowing consumers to de-duplicate it.
+ * @param sentSinks Optional. The sinks the message was already delivered to, which are skipped.
+ * @returns A promise that resolves to the sinks the message was delivered to (the skipped
+ *          ones included) and the sinks that failed, so only these are retried. It also
+ *          logs the outcome of every attempt, indicating success or failure in the console.
  */
 export async function sendMessage(
   queueName: string,
   messageContent: string,
-  expiration: string | any = null
-) {
-  // Get the single instance of the RabbitMQ client and ensure it is connected.
-  const rabbitMQClient = RabbitMQClient.getInstance();
-  await rabbitMQClient.connect();
+  expiration: string | any = null,
+  messageId?: string,
+  sentSinks: string[] = []
+): Promise<{ sent: string[]; failed: string[] }> {
+  let event: string | undefined;
+  try {
+    event = JSON.parse(messageContent)?.event;
+  } catch (error) {
+    event = undefined; // Not a JSON message, routed by its queue only
+  }
+
+  const sinks = resolveSinks(ROUTES, queueName, event);
+  if (sinks.length === 0) {
+    console.log(`No sink configured for ${queueName}, message dropped`);
+  }
 
-  // Attempt to publish the message to the specified queue.
-  const success = await rabbitMQClient.publishMessage(
-    queueName,
-    messageContent,
-    expiration
-  );
+  const sent = sinks.filter((name) => sentSinks.includes(name));
+  const failed: string[] = [];
+  for (const name of sinks) {
+    if (sent.includes(name)) continue;
+    let success = false;
+    try {
+      success = await getSink(name).send(
+        queueName,
+        messageContent,
+        expiration,
+        messageId
+      );
+    } catch (error) {
+      console.error(`Failed to send message to the ${name} sink:`, error);
+    }
 
-  // Log the outcome of the publishing attempt.
-  if (success) {
-    console.log(`Message published to ${queueName}`);
-  } else {
-    console.log(`Failed to publish message to ${queueName}`);
+    // Log the outcome of the publishing attempt.
+    if (success) {
+      console.log(`Message published to ${queueName} (${name})`);
+      sent.push(name);
+    } else {
+      console.log(`Failed to publish message to ${queueName} (${name})`);
+      failed.push(name);
+    }
   }
+  return { sent, failed };
 }
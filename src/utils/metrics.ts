@@ -0,0 +1,136 @@
+/**
+ * Definition of a Prometheus metric
+ */
+interface MetricDefinition {
+  type: "counter" | "gauge";
+  help: string;
+}
+
+// Counters of the process, keyed by metric name and then by their serialized labels
+const COUNTERS: Map<string, Map<string, number>> = new Map();
+
+const METRICS: { [name: string]: MetricDefinition } = {
+  dydx_position_events_total: {
+    type: "counter",
+    help: "Position changes processed, by event (open, update, flip, close)",
+  },
+  dydx_websocket_reconnects_total: {
+    type: "counter",
+    help: "Reconnections of the dYdX WebSocket connections, by socket",
+  },
+  dydx_quarantined_messages_total: {
+    type: "counter",
+    help: "Indexer messages failing validation and quarantined, by type",
+  },
+  dydx_websocket_up: {
+    type: "gauge",
+    help: "Whether a dYdX WebSocket connection is open, by socket",
+  },
+  dydx_websocket_subscriptions: {
+    type: "gauge",
+    help: "Trader subaccounts subscribed, by socket",
+  },
+  dydx_websocket_last_message_seconds: {
+    type: "gauge",
+    help: "Seconds since the last message or ping received, by socket",
+  },
+  dydx_message_queue_depth: {
+    type: "gauge",
+    help: "Messages waiting to be processed, summed over every trader",
+  },
+  dydx_processor_queue_depth: {
+    type: "gauge",
+    help: "Position changes waiting to be buffered",
+  },
+  dydx_pending_rows: {
+    type: "gauge",
+    help: "Rows buffered and not yet written to the database",
+  },
+  dydx_last_flush_seconds: {
+    type: "gauge",
+    help: "Seconds since the last successful write of the buffered rows",
+  },
+  dydx_db_active_connections: {
+    type: "gauge",
+    help: "Database connections in use",
+  },
+  dydx_rabbitmq_up: {
+    type: "gauge",
+    help: "Whether the RabbitMQ connection is open",
+  },
+  dydx_live_instances: {
+    type: "gauge",
+    help: "Instances of the server group with a recent heartbeat",
+  },
+  dydx_trader_leases: {
+    type: "gauge",
+    help: "Trader subaccounts leased by the instance",
+  },
+};
+
+/**
+ * Serializes the labels of a metric sample in the Prometheus text format.
+ * @param {Object} labels - The labels of the sample.
+ * @returns {string} - The serialized labels, e.g. `{event="open"}`, or an empty string.
+ */
+function formatLabels(labels: { [label: string]: string | number }): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries
+    .map(
+      ([label, value]) =>
+        `${label}="${String(value)
+          .replace(/\\/g, "\\\\")
+          .replace(/"/g, '\\"')}"`
+    )
+    .join(",")}}`;
+}
+
+/**
+ * Increments a counter of the process.
+ * @param {string} name - The name of the counter, one of METRICS.
+ * @param {Object} [labels={}] - The labels of the sample to increment.
+ * @param {number} [value=1] - The amount to increment the counter by.
+ */
+export function incrementCounter(
+  name: string,
+  labels: { [label: string]: string | number } = {},
+  value = 1
+) {
+  if (!COUNTERS.has(name)) COUNTERS.set(name, new Map());
+  const samples = COUNTERS.get(name)!;
+  const key = formatLabels(labels);
+  samples.set(key, (samples.get(key) ?? 0) + value);
+}
+
+/**
+ * Renders the counters of the process and the given gauges in the Prometheus text format.
+ * @param {Object} gauges - The current samples of the gauges, keyed by metric name.
+ * @returns {string} - The metrics exposition.
+ */
+export function renderMetrics(gauges: {
+  [name: string]: {
+    labels?: { [label: string]: string | number };
+    value: number;
+  }[];
+}): string {
+  const lines: string[] = [];
+  for (const [name, definition] of Object.entries(METRICS)) {
+    const samples =
+      definition.type === "counter"
+        ? Array.from(COUNTERS.get(name)?.entries() ?? [])
+        : (gauges[name] ?? []).map(
+            (sample) =>
+              [formatLabels(sample.labels ?? {}), sample.value] as [
+                string,
+                number
+              ]
+          );
+    lines.push(`# HELP ${name} ${definition.help}`);
+    lines.push(`# TYPE ${name} ${definition.type}`);
+    samples.forEach(([labels, value]) =>
+      lines.push(`${name}${labels} ${value}`)
+    );
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,99 @@
+import {
+  NOTIFICATION_MAX_ATTEMPTS,
+  PAGE_SIZE_NOTIFICATIONS,
+} from "../constants";
+import { ORDER_INTENTS_QUEUE } from "../constants/queues";
+import { SQL_NOTIFICATIONS_OUTBOX } from "../constants/tables";
+import { getSqlDate, sqlExecute, sqlQuery } from "./database";
+import { sendMessage } from "./messaging";
+
+/**
+ * Gets the expiration a notification is published with. Order intents must not be executed
+ * late however long they waited to be committed and dispatched, so their expiration runs from
+ * their creation rather than from their publication.
+ * @param {any} notification - The notification of the outbox.
+ * @returns {string | undefined | null} - The expiration in milliseconds, undefined if the notification doesn't expire, or null if it expired.
+ */
+function getExpiration(notification: any): string | undefined | null {
+  const expiration = notification.expiration?.toString();
+  if (notification.queue !== ORDER_INTENTS_QUEUE) return expiration;
+
+  const { created_at } = JSON.parse(notification.message);
+  const left = Number(expiration) - (Date.now() - Date.parse(created_at));
+  return left > 0 ? Math.ceil(left).toString() : null;
+}
+
+/**
+ * Publishes the notifications pending in the outbox, oldest first. A notification is only
+ * marked as sent once every sink accepted it (for RabbitMQ, once the broker confirmed it),
+ * so it is delivered at least once: consumers should de-duplicate them by their `dedup_key`,
+ * also sent as the message id. The sinks that accepted it are recorded, so a retry only goes
+ * to the ones that failed.
+ * Dispatching stops at the first failure, the rest is retried on the next run, and a
+ * notification failing NOTIFICATION_MAX_ATTEMPTS times is dead-lettered to unblock the others.
+ * Order intents older than their expiration are dead-lettered without being published.
+ */
+export async function dispatchNotifications() {
+  const notifications = await sqlQuery(
+    `
+      SELECT id, dedup_key, queue, message, expiration, attempts, sent_sinks
+      FROM ${SQL_NOTIFICATIONS_OUTBOX}
+      WHERE sent_at IS NULL AND failed_at IS NULL
+      ORDER BY id ASC
+      LIMIT ${PAGE_SIZE_NOTIFICATIONS}`
+  );
+
+  for (const notification of notifications) {
+    const expiration = getExpiration(notification);
+    if (expiration === null) {
+      await sqlExecute(
+        `UPDATE ${SQL_NOTIFICATIONS_OUTBOX} SET failed_at = ? WHERE id = ?`,
+        [await getSqlDate(), notification.id]
+      );
+      console.error(
+        `Order intent ${notification.dedup_key} expired before dispatch, dead-lettered`
+      );
+      continue;
+    }
+
+    const sentSinks = notification.sent_sinks
+      ? notification.sent_sinks.split(",")
+      : [];
+    let result: { sent: string[]; failed: string[] } | null = null;
+    try {
+      result = await sendMessage(
+        notification.queue,
+        notification.message,
+        expiration,
+        notification.dedup_key,
+        sentSinks
+      );
+    } catch (error) {
+      console.log(
+        `Error dispatching notification ${notification.dedup_key}: `,
+        error
+      );
+    }
+    const sinks = result ? result.sent : sentSinks;
+    const sent = sinks.length > 0 ? sinks.join(",") : null;
+
+    if (!result || result.failed.length > 0) {
+      const dead =
+        Number(notification.attempts) + 1 >= NOTIFICATION_MAX_ATTEMPTS;
+      await sqlExecute(
+        `UPDATE ${SQL_NOTIFICATIONS_OUTBOX} SET sent_sinks = ?, failed_at = ?, attempts = attempts + 1 WHERE id = ?`,
+        [sent, dead ? await getSqlDate() : null, notification.id]
+      );
+      if (!dead) return;
+      console.error(
+        `Notification ${notification.dedup_key} failed ${NOTIFICATION_MAX_ATTEMPTS} times, dead-lettered`
+      );
+      continue;
+    }
+
+    await sqlExecute(
+      `UPDATE ${SQL_NOTIFICATIONS_OUTBOX} SET sent_sinks = ?, sent_at = ?, attempts = attempts + 1 WHERE id = ?`,
+      [sent, await getSqlDate(), notification.id]
+    );
+  }
+}
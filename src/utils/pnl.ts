@@ -0,0 +1,133 @@
+import Decimal from "decimal.js";
+
+/**
+ * Breakdown of the profit and loss of a trade
+ */
+export interface PnlInterface {
+  gross_pnl: string;
+  fees: string;
+  funding: string;
+  net_pnl: string;
+}
+
+/**
+ * Converts a possibly missing amount into a Decimal, treating missing amounts as zero.
+ *
+ * @param {Decimal.Value | null} amount - The amount to convert.
+ * @returns {Decimal} - The amount as a Decimal.
+ */
+export function toDecimal(amount: Decimal.Value | null | undefined): Decimal {
+  return amount === null || amount === undefined || amount === ""
+    ? new Decimal(0)
+    : new Decimal(amount);
+}
+
+/**
+ * Computes the profit and loss of a (partially) closed trade. The gross PnL is the closed
+ * size times the price difference, and the net PnL adds the funding received and subtracts
+ * the trading fees paid (negative fees being rebates).
+ *
+ * @param {Decimal.Value} size - The closed size, positive for longs and negative for shorts.
+ * @param {Decimal.Value} entryPrice - The average entry price of the trade.
+ * @param {Decimal.Value} exitPrice - The average exit price of the trade, if any.
+ * @param {Decimal.Value} fees - The trading fees paid on the trade.
+ * @param {Decimal.Value} funding - The net funding received on the trade.
+ * @returns {PnlInterface} - The gross PnL, fees, funding and net PnL of the trade.
+ */
+export function computePnl(
+  size: Decimal.Value,
+  entryPrice: Decimal.Value | null,
+  exitPrice: Decimal.Value | null,
+  fees: Decimal.Value | null,
+  funding: Decimal.Value | null
+): PnlInterface {
+  const gross_pnl =
+    entryPrice && exitPrice
+      ? toDecimal(size).times(toDecimal(exitPrice).minus(entryPrice))
+      : new Decimal(0);
+  const net_pnl = gross_pnl.add(toDecimal(funding)).minus(toDecimal(fees));
+
+  return {
+    gross_pnl: gross_pnl.toString(),
+    fees: toDecimal(fees).toString(),
+    funding: toDecimal(funding).toString(),
+    net_pnl: net_pnl.toString(),
+  };
+}
+
+/**
+ * Adds up the fees paid on a list of fills.
+ *
+ * @param {any[]} fills - The fills data as received from dYdX.
+ * @returns {string} - The total fees of the fills.
+ */
+export function sumFees(fills: any[]): string {
+  return fills
+    .reduce(
+      (total: Decimal, fill: any) => total.add(toDecimal(fill.fee)),
+      new Decimal(0)
+    )
+    .toString();
+}
+
+/**
+ * Splits the fees of the fills flipping a position between the trade they close and the
+ * trade they open, proportionally to the size closed and opened.
+ *
+ * @param {Decimal.Value} fees - The total fees of the fills.
+ * @param {Decimal.Value} closedSize - The size of the trade closed.
+ * @param {Decimal.Value} openedSize - The size of the trade opened.
+ * @returns {string[]} - The fees of the closed trade and the fees of the opened trade.
+ */
+export function splitFees(
+  fees: Decimal.Value,
+  closedSize: Decimal.Value,
+  openedSize: Decimal.Value
+): [string, string] {
+  const total = toDecimal(closedSize).abs().add(toDecimal(openedSize).abs());
+  if (total.isZero()) return [toDecimal(fees).toString(), "0"];
+
+  const closedFees = toDecimal(fees)
+    .times(toDecimal(closedSize).abs())
+    .div(total);
+  return [closedFees.toString(), toDecimal(fees).minus(closedFees).toString()];
+}
+
+/**
+ * Breakdown of the live performance of an open trade
+ */
+export interface UnrealizedPnlInterface {
+  mark_price: string;
+  unrealized_pnl: string;
+  notional: string;
+  roi: string;
+}
+
+/**
+ * Computes the unrealized profit and loss of an open trade at the current market price.
+ * The ROI is the unrealized PnL relative to the notional at entry.
+ *
+ * @param {Decimal.Value} size - The open size, positive for longs and negative for shorts.
+ * @param {Decimal.Value} entryPrice - The average entry price of the trade.
+ * @param {Decimal.Value} markPrice - The current price of the market.
+ * @returns {UnrealizedPnlInterface} - The unrealized PnL, current notional and ROI of the trade.
+ */
+export function computeUnrealizedPnl(
+  size: Decimal.Value,
+  entryPrice: Decimal.Value,
+  markPrice: Decimal.Value
+): UnrealizedPnlInterface {
+  const unrealized_pnl = toDecimal(size).times(
+    toDecimal(markPrice).minus(toDecimal(entryPrice))
+  );
+  const entry_notional = toDecimal(size).abs().times(toDecimal(entryPrice));
+
+  return {
+    mark_price: toDecimal(markPrice).toString(),
+    unrealized_pnl: unrealized_pnl.toString(),
+    notional: toDecimal(size).abs().times(toDecimal(markPrice)).toString(),
+    roi: entry_notional.isZero()
+      ? "0"
+      : unrealized_pnl.div(entry_notional).toString(),
+  };
+}
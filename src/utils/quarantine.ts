@@ -0,0 +1,41 @@
+import { QUARANTINE_FILE } from "../constants";
+import { SQL_MESSAGES_QUARANTINE } from "../constants/tables";
+import { getSqlDate, sqlExecute } from "./database";
+import { appendToJournal } from "./journal";
+import { incrementCounter } from "./metrics";
+
+/**
+ * Stores a payload of the indexer that failed validation in the quarantine table, along
+ * with the reason, instead of processing it. Payloads that can't be stored in the database
+ * are appended to the quarantine file, so they are never lost.
+ *
+ * @param {string} source - Where the payload comes from (address/subaccount, socket...).
+ * @param {any} payload - The raw payload, parsed or not.
+ * @param {string} reason - Why the payload failed validation.
+ */
+export async function quarantineMessage(
+  source: string,
+  payload: any,
+  reason: string
+) {
+  console.error(`Quarantining message of ${source}: ${reason}`);
+  incrementCounter("dydx_quarantined_messages_total", {
+    type: payload?.type ?? "unknown",
+  });
+
+  const raw = typeof payload === "string" ? payload : JSON.stringify(payload);
+  const received_at = await getSqlDate();
+  try {
+    await sqlExecute(
+      `INSERT INTO ${SQL_MESSAGES_QUARANTINE} (source, reason, payload, received_at) VALUES (?, ?, ?, ?)`,
+      [source, reason, raw, received_at]
+    );
+  } catch (error) {
+    console.error(
+      `Failed to store quarantined message of ${source}, writing it to ${QUARANTINE_FILE}`
+    );
+    appendToJournal(QUARANTINE_FILE, [
+      { source, reason, payload: raw, received_at },
+    ]);
+  }
+}
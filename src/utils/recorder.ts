@@ -0,0 +1,39 @@
+import { RECORD_MESSAGES, RECORDINGS_DIR } from "../constants";
+import { appendToJournal, readJournal } from "./journal";
+
+/**
+ * Gets the recording file of a trader subaccount.
+ * @param {string} id - The subscription id of the trader (address/subaccount).
+ * @returns {string} - The path of the JSONL recording of the trader.
+ */
+export function getRecordingFile(id: string): string {
+  return `${RECORDINGS_DIR}/${id.replace(/\//g, "_")}.jsonl`;
+}
+
+/**
+ * Appends a raw message received for a trader to its recording, when RECORD_MESSAGES
+ * is enabled. Recording failures are logged and never stop the processing.
+ * @param {string} id - The subscription id of the trader (address/subaccount).
+ * @param {any} message - The parsed message, as received from the socket.
+ */
+export function recordMessage(id: string, message: any) {
+  if (!RECORD_MESSAGES) return;
+  try {
+    appendToJournal(getRecordingFile(id), [
+      { received_at: new Date().toISOString(), message },
+    ]);
+  } catch (error) {
+    console.error(`Failed to record message of ${id}:`, error);
+  }
+}
+
+/**
+ * Reads the messages of a recording, in the order they were received.
+ * @param {string} file - The path of the recording.
+ * @returns {any[]} - The recorded messages.
+ */
+export function readRecording(file: string): any[] {
+  return readJournal(file)
+    .map((entry) => entry.message)
+    .filter((message) => message);
+}
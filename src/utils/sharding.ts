@@ -0,0 +1,201 @@
+import os from "os";
+import { INSTANCE_ID, LEASE_DURATION, SERVER_GROUP } from "../constants";
+import { LeasesInterface } from "../constants/interfaces";
+import { SQL_TRACKER_INSTANCES, SQL_TRADER_LEASES } from "../constants/tables";
+import {
+  flushTrades,
+  getPendingTraders,
+  waitForProcessor,
+} from "../services/processor";
+import { getDialect, sqlExecute, sqlQuery } from "./database";
+
+// Live instances of the server group and traders leased, as of the last sync
+let liveInstances: string[] = [];
+let heldLeases = new Set<string>();
+
+/**
+ * Registers the instance in its server group, or refreshes its heartbeat, and renews the
+ * leases it holds. Instances without a heartbeat for LEASE_DURATION seconds are considered
+ * gone, along with their leases.
+ */
+async function heartbeat() {
+  const dialect = getDialect();
+  await sqlExecute(
+    `INSERT INTO ${SQL_TRACKER_INSTANCES} (instance_id, server_group, hostname, heartbeat_at)
+     VALUES (?, ?, ?, ${dialect.now})
+     ${dialect.onConflict(["instance_id"], {
+       server_group: dialect.excluded("server_group"),
+       heartbeat_at: dialect.now,
+     })}`,
+    [INSTANCE_ID, SERVER_GROUP ?? null, os.hostname()]
+  );
+  await sqlExecute(
+    `UPDATE ${SQL_TRADER_LEASES} SET expires_at = ${dialect.secondsFromNow}
+     WHERE instance_id = ? AND expires_at > ${dialect.now}`,
+    [LEASE_DURATION, INSTANCE_ID]
+  );
+}
+
+/**
+ * Gets the instances of the server group with a recent heartbeat, this one included.
+ * @returns {Promise<string[]>} - The ids of the live instances, sorted.
+ */
+async function getLiveInstances(): Promise<string[]> {
+  const rows = await sqlQuery(
+    `SELECT instance_id FROM ${SQL_TRACKER_INSTANCES}
+     WHERE COALESCE(server_group, '') = ? AND heartbeat_at > ${
+       getDialect().secondsFromNow
+     }
+     ORDER BY instance_id`,
+    [SERVER_GROUP ?? "", -LEASE_DURATION]
+  );
+  return rows.map((row: any) => row.instance_id);
+}
+
+/**
+ * Gets the traders currently leased by this instance.
+ * @returns {Promise<Set<string>>} - The ids (address/subaccount) of the leased traders.
+ */
+async function getHeldLeases(): Promise<Set<string>> {
+  const rows = await sqlQuery(
+    `SELECT subaccount_id FROM ${SQL_TRADER_LEASES}
+     WHERE instance_id = ? AND expires_at > ${getDialect().now}`,
+    [INSTANCE_ID]
+  );
+  return new Set(rows.map((row: any) => row.subaccount_id));
+}
+
+/**
+ * Claims the lease of a trader, unless another instance holds an unexpired one.
+ * The lease of an instance that stopped its heartbeat expires, so its traders are
+ * taken over by the live instances.
+ *
+ * The lease is taken over by a conditional update, so the check and the change are a single
+ * atomic write whatever the order the database assigns the columns in. A trader without
+ * lease yet is inserted without overwriting a concurrent claim, and its owner read back,
+ * as the row counts of upserts differ between clients (mysql2 counts the rows found).
+ *
+ * @param {string} id - The id (address/subaccount) of the trader.
+ * @returns {Promise<boolean>} - Whether the lease was claimed.
+ */
+async function claimLease(id: string): Promise<boolean> {
+  const dialect = getDialect();
+  const { affectedRows } = await sqlExecute(
+    `UPDATE ${SQL_TRADER_LEASES}
+     SET instance_id = ?, expires_at = ${dialect.secondsFromNow}
+     WHERE subaccount_id = ? AND (expires_at <= ${dialect.now} OR instance_id = ?)`,
+    [INSTANCE_ID, LEASE_DURATION, id, INSTANCE_ID]
+  );
+  if (affectedRows > 0) return true;
+
+  await sqlExecute(
+    `INSERT INTO ${SQL_TRADER_LEASES} (subaccount_id, instance_id, expires_at)
+     VALUES (?, ?, ${dialect.secondsFromNow})
+     ${dialect.onConflict(["subaccount_id"], {})}`,
+    [id, INSTANCE_ID, LEASE_DURATION]
+  );
+  const rows = await sqlQuery(
+    `SELECT instance_id FROM ${SQL_TRADER_LEASES} WHERE subaccount_id = ?`,
+    [id]
+  );
+  return rows[0]?.instance_id === INSTANCE_ID;
+}
+
+/**
+ * Releases leases held by this instance, so other instances can claim their traders.
+ * @param {string[]} ids - The ids (address/subaccount) of the traders.
+ */
+export async function releaseLeases(ids: string[]) {
+  if (ids.length === 0) return;
+  await sqlExecute(
+    `DELETE FROM ${SQL_TRADER_LEASES}
+     WHERE instance_id = ? AND subaccount_id IN (${ids
+       .map(() => "?")
+       .join(", ")})`,
+    [INSTANCE_ID, ...ids]
+  );
+}
+
+/**
+ * Balances the traders of the server group between its live instances. Every instance
+ * holds at most its fair share of the traders (rounded up): the leases above it are handed
+ * over when instances join, and free or expired leases are claimed up to it, which takes over
+ * the traders of the instances that left. Leases of traders no longer active are handed over too.
+ *
+ * Leases handed over are kept, and renewed by the heartbeat, until released by handOverLeases
+ * once their traders are unsubscribed, so no other instance restores them before their trades
+ * are written.
+ *
+ * @param {any[]} traders - The active traders of the server group, with their id (address/subaccount).
+ * @returns {Promise<LeasesInterface>} - The ids of the traders leased by this instance, and of the ones to hand over.
+ * @throws {Error} Throws an error if the database is unavailable, to be handled by the caller.
+ */
+export async function syncLeases(traders: any[]): Promise<LeasesInterface> {
+  try {
+    await heartbeat();
+    liveInstances = await getLiveInstances();
+    const share = Math.ceil(traders.length / Math.max(liveInstances.length, 1));
+    const ids = new Set(traders.map((trader) => trader.id));
+
+    const held = await getHeldLeases();
+    const inactive = Array.from(held).filter((id) => !ids.has(id));
+    const excess = Array.from(held)
+      .filter((id) => ids.has(id))
+      .sort()
+      .slice(share);
+    if (excess.length > 0)
+      console.log(`Handing over ${excess.length} traders to rebalance`);
+    const handover = [...inactive, ...excess];
+    handover.forEach((id) => held.delete(id));
+
+    for (const id of ids) {
+      if (held.size >= share) break;
+      if (held.has(id) || handover.includes(id)) continue;
+      if (await claimLease(id)) held.add(id);
+    }
+
+    heldLeases = held;
+    return { leased: new Set(held), handover };
+  } catch (error) {
+    console.error("Error syncing trader leases:", error);
+    throw error;
+  }
+}
+
+/**
+ * Releases the leases of traders handed over, once unsubscribed, the way shutdown does:
+ * their pending rows are written first, so the instance taking them over restores their
+ * trades as this one left them. Leases of traders with rows still unwritten are kept, and
+ * handed over again on the next sync.
+ *
+ * @param {string[]} ids - The ids (address/subaccount) of the traders, no longer subscribed.
+ * @returns {Promise<string[]>} - The ids of the traders released.
+ * @throws {Error} Throws an error if the database is unavailable, to be handled by the caller.
+ */
+export async function handOverLeases(ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return [];
+  try {
+    await waitForProcessor();
+    await flushTrades();
+    const pending = await getPendingTraders();
+    const released = ids.filter((id) => !pending.has(id));
+    await releaseLeases(released);
+    return released;
+  } catch (error) {
+    console.error("Error handing over trader leases:", error);
+    throw error;
+  }
+}
+
+/**
+ * Gets the sharding state of the instance, as of the last sync of the leases.
+ * @returns {Object} - The id and server group of the instance, the live instances and the number of traders leased.
+ */
+export function getShardingHealth() {
+  return {
+    instance_id: INSTANCE_ID,
+    server_group: SERVER_GROUP ?? null,
+    live_instances: liveInstances.length,
+    leases: heldLeases.size,
+  };
+}
@@ -0,0 +1,281 @@
+import axios from "axios";
+import crypto from "crypto";
+import RabbitMQClient from "../config/messaging";
+import {
+  CHAT_WEBHOOK_URL,
+  NOTIFICATIONS_FILE,
+  WEBHOOK_MAX_RETRIES,
+  WEBHOOK_RETRY_DELAY,
+  WEBHOOK_SECRET,
+  WEBHOOK_TIMEOUT,
+  WEBHOOK_URL,
+} from "../constants";
+import { NotificationSink } from "../constants/interfaces";
+import { appendToJournal } from "./journal";
+
+// Utility function to pause execution for a given duration
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parses the content of a notification, which is expected to be JSON.
+ * @param {string} messageContent - The content of the notification.
+ * @returns {any} - The parsed content, or the raw content if it isn't JSON.
+ */
+function parseContent(messageContent: string): any {
+  try {
+    return JSON.parse(messageContent);
+  } catch (error) {
+    return messageContent;
+  }
+}
+
+/**
+ * Posts a body to a webhook, retrying with exponential backoff on network errors,
+ * timeouts, 429 and 5xx responses. Other responses are not retried.
+ * @param {string} url - The URL of the webhook.
+ * @param {string} body - The JSON body to post.
+ * @param {Object} [headers={}] - Extra headers of the request.
+ * @returns {Promise<boolean>} - Whether the webhook accepted the body.
+ */
+async function postWithRetries(
+  url: string,
+  body: string,
+  headers: { [header: string]: string } = {}
+): Promise<boolean> {
+  let delayMs = WEBHOOK_RETRY_DELAY;
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_RETRIES; attempt++) {
+    try {
+      await axios.post(url, body, {
+        headers: { "Content-Type": "application/json", ...headers },
+        timeout: WEBHOOK_TIMEOUT,
+      });
+      return true;
+    } catch (error: any) {
+      const status = error?.response?.status;
+      const retryable = !status || status === 429 || status >= 500;
+      console.error(
+        `Webhook ${url} failed (attempt ${attempt} of ${WEBHOOK_MAX_RETRIES}): `,
+        status || error?.message
+      );
+      if (!retryable || attempt === WEBHOOK_MAX_RETRIES) return false;
+      await delay(delayMs);
+      delayMs *= 2; // Exponential backoff
+    }
+  }
+  return false;
+}
+
+/**
+ * Creates a sink publishing notifications to their RabbitMQ queue.
+ * @returns {NotificationSink} - The RabbitMQ sink.
+ */
+export function createRabbitMQSink(): NotificationSink {
+  return {
+    name: "rabbitmq",
+    send: async function (queueName, messageContent, expiration, messageId) {
+      // Get the single instance of the RabbitMQ client and ensure it is connected.
+      const rabbitMQClient = RabbitMQClient.getInstance();
+      await rabbitMQClient.connect();
+      return rabbitMQClient.publishMessage(
+        queueName,
+        messageContent,
+        expiration,
+        messageId
+      );
+    },
+  };
+}
+
+/**
+ * Creates a sink posting notifications to a generic HTTP webhook. The body is the
+ * notification wrapped with its queue and id, signed with HMAC-SHA256 over
+ * `<timestamp>.<body>` when a secret is given, in the `X-Signature` header.
+ * @param {string} url - The URL of the webhook.
+ * @param {string} [secret] - The secret to sign the requests with.
+ * @returns {NotificationSink} - The webhook sink.
+ */
+export function createWebhookSink(
+  url: string,
+  secret?: string
+): NotificationSink {
+  return {
+    name: "webhook",
+    send: async function (queueName, messageContent, expiration, messageId) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const body = JSON.stringify({
+        id: messageId ?? null,
+        queue: queueName,
+        message: parseContent(messageContent),
+      });
+      const headers: { [header: string]: string } = {
+        "X-Timestamp": timestamp,
+      };
+      if (messageId) headers["X-Message-Id"] = messageId;
+      if (secret) {
+        const signature = crypto
+          .createHmac("sha256", secret)
+          .update(`${timestamp}.${body}`)
+          .digest("hex");
+        headers["X-Signature"] = `sha256=${signature}`;
+      }
+      return postWithRetries(url, body, headers);
+    },
+  };
+}
+
+/**
+ * Formats a notification as a human readable chat line.
+ * @param {any} message - The parsed notification.
+ * @returns {string} - The chat line.
+ */
+export function formatChatMessage(message: any): string {
+  if (typeof message !== "object" || message === null) return String(message);
+  if (message.type === "alert") {
+    return `ALERT ${message.description ?? message.rule}: ${message.reason} (${
+      message.event?.trade_id
+    })`;
+  }
+  if (message.type === "order_intent") {
+    return `ORDER ${message.follower}: ${message.side} ${message.size} ${
+      message.market
+    } @ ${message.reference_price}${
+      message.reduce_only ? " (reduce only)" : ""
+    }`;
+  }
+
+  const labels: { [event: string]: string } = {
+    opened: "Opened",
+    increased: "Increased",
+    reduced: "Reduced",
+    flipped: "Flipped",
+    closed: "Closed",
+    liquidated: "LIQUIDATED",
+    deleveraged: "Auto-deleveraged",
+  };
+  const label = labels[message.event] ?? message.event ?? "Updated";
+  if (!message.token) return `${label}: ${message.trade_id}`;
+
+  let line = `${label} ${message.side} ${message.token}: size ${message.previous_size} -> ${message.size}`;
+  if (message.price) line += ` @ ${message.price}`;
+  if (message.trade?.end_date) line += `, net PnL ${message.pnl?.net_pnl}`;
+  return `${line} (${message.trade_id})`;
+}
+
+/**
+ * Creates a sink posting notifications to a chat incoming webhook (Slack, Discord,
+ * Mattermost...) as a human readable line.
+ * @param {string} url - The URL of the incoming webhook.
+ * @returns {NotificationSink} - The chat sink.
+ */
+export function createChatSink(url: string): NotificationSink {
+  return {
+    name: "chat",
+    send: async function (queueName, messageContent) {
+      const text = formatChatMessage(parseContent(messageContent));
+      // Slack and Mattermost read `text`, Discord reads `content`
+      return postWithRetries(url, JSON.stringify({ text, content: text }));
+    },
+  };
+}
+
+/**
+ * Creates a sink appending notifications to a local JSONL file.
+ * @param {string} file - The path of the file.
+ * @returns {NotificationSink} - The file sink.
+ */
+export function createFileSink(file: string): NotificationSink {
+  return {
+    name: "file",
+    send: async function (queueName, messageContent, expiration, messageId) {
+      try {
+        appendToJournal(file, [
+          {
+            id: messageId ?? null,
+            queue: queueName,
+            message: parseContent(messageContent),
+            written_at: new Date().toISOString(),
+          },
+        ]);
+        return true;
+      } catch (error) {
+        console.error(`Failed to write notification to ${file}:`, error);
+        return false;
+      }
+    },
+  };
+}
+
+// Sinks already created, by name
+const SINKS: Map<string, NotificationSink> = new Map();
+
+/**
+ * Gets a built-in sink by name, creating it from its configuration on first use.
+ * @param {string} name - The name of the sink: rabbitmq, webhook, chat or file.
+ * @returns {NotificationSink} - The sink.
+ * @throws {Error} If the sink is unknown or its configuration is missing.
+ */
+export function getSink(name: string): NotificationSink {
+  if (SINKS.has(name)) return SINKS.get(name)!;
+
+  let sink: NotificationSink;
+  if (name === "rabbitmq") sink = createRabbitMQSink();
+  else if (name === "webhook") {
+    if (!WEBHOOK_URL)
+      throw new Error("WEBHOOK_URL is required by the webhook sink");
+    sink = createWebhookSink(WEBHOOK_URL, WEBHOOK_SECRET);
+  } else if (name === "chat") {
+    if (!CHAT_WEBHOOK_URL)
+      throw new Error("CHAT_WEBHOOK_URL is required by the chat sink");
+    sink = createChatSink(CHAT_WEBHOOK_URL);
+  } else if (name === "file") sink = createFileSink(NOTIFICATIONS_FILE);
+  else throw new Error(`Unknown notification sink: ${name}`);
+
+  SINKS.set(name, sink);
+  return sink;
+}
+
+/**
+ * Parses the routes of the notifications, given as `<queue>[:<event>]=<sink>,<sink>`
+ * rules separated by semicolons. `*` matches any queue.
+ * @param {string} routes - The routes to parse.
+ * @returns {Map<string, string[]>} - The names of the sinks, keyed by `<queue>[:<event>]`.
+ */
+export function parseRoutes(routes: string): Map<string, string[]> {
+  const parsed: Map<string, string[]> = new Map();
+  for (const rule of routes.split(";")) {
+    if (!rule.trim()) continue;
+    const [key, sinks] = rule.split("=");
+    parsed.set(
+      key.trim(),
+      (sinks || "")
+        .split(",")
+        .map((sink) => sink.trim())
+        .filter((sink) => sink)
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Resolves the sinks of a notification from the routes. The most specific rule wins:
+ * queue and event first, then queue, then any queue with the event, then any queue.
+ * @param {Map<string, string[]>} routes - The parsed routes.
+ * @param {string} queueName - The queue of the notification.
+ * @param {string} [event] - The event of the notification, if any.
+ * @returns {string[]} - The names of the sinks of the notification.
+ */
+export function resolveSinks(
+  routes: Map<string, string[]>,
+  queueName: string,
+  event?: string
+): string[] {
+  const keys = event
+    ? [`${queueName}:${event}`, queueName, `*:${event}`, "*"]
+    : [queueName, "*"];
+  for (const key of keys) {
+    if (routes.has(key)) return routes.get(key)!;
+  }
+  return [];
+}
@@ -0,0 +1,401 @@
+import Decimal from "decimal.js";
+import { AMOUNT_DECIMALS, STATS_ALL_TOKENS } from "../constants";
+import { getStorage } from "../storage";
+import { getSqlDate } from "./database";
+import { convertFromDecimal, convertToDecimal } from "./functions";
+import { toDecimal } from "./pnl";
+
+/**
+ * Performance aggregates of a set of closed trades
+ */
+export interface StatsInterface {
+  trades: number;
+  wins: number;
+  losses: number;
+  win_rate: string;
+  total_pnl: string;
+  avg_pnl: string;
+  gross_profit: string;
+  gross_loss: string;
+  profit_factor: string | null;
+  avg_hold_time: number;
+  largest_win: string;
+  largest_loss: string;
+  max_drawdown: string;
+  sharpe_ratio: string;
+}
+
+/**
+ * Performance aggregates of a user, overall or for a token
+ */
+export interface UserStatsInterface extends StatsInterface {
+  user: number;
+  token: string;
+  timestamp: string;
+}
+
+/**
+ * Running aggregates of a set of closed trades, the stats are derived from. They are
+ * updated from each closing trade, without reading the previous trades again.
+ */
+export interface RunningStatsInterface {
+  trades: number;
+  wins: number;
+  losses: number;
+  gross_profit: string;
+  gross_loss: string;
+  largest_win: string;
+  largest_loss: string;
+  peak_pnl: string;
+  max_drawdown: string;
+  sum_squares: string;
+  total_hold_time: number;
+}
+
+const EMPTY_RUNNING_STATS: RunningStatsInterface = {
+  trades: 0,
+  wins: 0,
+  losses: 0,
+  gross_profit: "0",
+  gross_loss: "0",
+  largest_win: "0",
+  largest_loss: "0",
+  peak_pnl: "0",
+  max_drawdown: "0",
+  sum_squares: "0",
+  total_hold_time: 0,
+};
+
+/**
+ * Adds a closed trade to running aggregates. Trades must be added in close order: the max
+ * drawdown is the largest drop of the cumulative PnL from its previous peak.
+ *
+ * @param {RunningStatsInterface} running - The aggregates of the trades closed before.
+ * @param {any} trade - The closed trade, with its net `pnl` and hold time in seconds.
+ * @returns {RunningStatsInterface} - The aggregates including the trade.
+ */
+export function addClosedTrade(
+  running: RunningStatsInterface,
+  trade: any
+): RunningStatsInterface {
+  const pnl = toDecimal(trade.pnl);
+  let { wins, losses } = running;
+  let grossProfit = toDecimal(running.gross_profit);
+  let grossLoss = toDecimal(running.gross_loss);
+  let largestWin = toDecimal(running.largest_win);
+  let largestLoss = toDecimal(running.largest_loss);
+  if (pnl.greaterThan(0)) {
+    wins++;
+    grossProfit = grossProfit.add(pnl);
+    largestWin = Decimal.max(largestWin, pnl);
+  } else if (pnl.lessThan(0)) {
+    losses++;
+    grossLoss = grossLoss.add(pnl.abs());
+    largestLoss = Decimal.min(largestLoss, pnl);
+  }
+  const cumulative = grossProfit.minus(grossLoss);
+  const peak = Decimal.max(toDecimal(running.peak_pnl), cumulative);
+
+  return {
+    trades: running.trades + 1,
+    wins,
+    losses,
+    gross_profit: grossProfit.toString(),
+    gross_loss: grossLoss.toString(),
+    largest_win: largestWin.toString(),
+    largest_loss: largestLoss.toString(),
+    peak_pnl: peak.toString(),
+    max_drawdown: Decimal.max(
+      toDecimal(running.max_drawdown),
+      peak.minus(cumulative)
+    ).toString(),
+    sum_squares: toDecimal(running.sum_squares).add(pnl.pow(2)).toString(),
+    total_hold_time: running.total_hold_time + (Number(trade.hold_time) || 0),
+  };
+}
+
+/**
+ * Derives the performance aggregates from running aggregates. The Sharpe-like ratio is the
+ * mean PnL per trade over its sample standard deviation, computed from the sum of squares.
+ *
+ * @param {RunningStatsInterface} running - The running aggregates of the trades.
+ * @returns {StatsInterface} - The aggregates of the trades.
+ */
+export function deriveStats(running: RunningStatsInterface): StatsInterface {
+  const count = running.trades;
+  const grossProfit = toDecimal(running.gross_profit);
+  const grossLoss = toDecimal(running.gross_loss);
+  const total = grossProfit.minus(grossLoss);
+  const mean = count > 0 ? total.div(count) : new Decimal(0);
+
+  let sharpe = new Decimal(0);
+  if (count > 1) {
+    const variance = toDecimal(running.sum_squares)
+      .minus(mean.pow(2).mul(count))
+      .div(count - 1);
+    if (variance.greaterThan(0)) sharpe = mean.div(variance.sqrt());
+  }
+
+  return {
+    trades: count,
+    wins: running.wins,
+    losses: running.losses,
+    win_rate: count > 0 ? new Decimal(running.wins).div(count).toString() : "0",
+    total_pnl: total.toString(),
+    avg_pnl: mean.toString(),
+    gross_profit: grossProfit.toString(),
+    gross_loss: grossLoss.toString(),
+    profit_factor: grossLoss.greaterThan(0)
+      ? grossProfit.div(grossLoss).toString()
+      : null,
+    avg_hold_time: count > 0 ? Math.round(running.total_hold_time / count) : 0,
+    largest_win: running.largest_win,
+    largest_loss: running.largest_loss,
+    max_drawdown: running.max_drawdown,
+    sharpe_ratio: sharpe.toString(),
+  };
+}
+
+/**
+ * Computes the performance aggregates of a list of closed trades, sorted by close date.
+ *
+ * @param {any[]} trades - The closed trades, with their net `pnl` and hold time in seconds.
+ * @returns {StatsInterface} - The aggregates of the trades.
+ */
+export function computeStats(trades: any[]): StatsInterface {
+  return deriveStats(trades.reduce(addClosedTrade, EMPTY_RUNNING_STATS));
+}
+
+/**
+ * Converts the running aggregates of a user and token into a row of the users stats table,
+ * along with the stats derived from them.
+ * @param {number} user - The id of the user.
+ * @param {string} token - The token of the aggregates, or STATS_ALL_TOKENS for all of them.
+ * @param {RunningStatsInterface} running - The running aggregates to convert.
+ * @param {string} timestamp - The date of the computation.
+ * @returns {Promise<any[]>} - The row of the aggregates.
+ */
+async function toStatsRow(
+  user: number,
+  token: string,
+  running: RunningStatsInterface,
+  timestamp: string
+): Promise<any[]> {
+  const stats = deriveStats(running);
+  return [
+    user,
+    token,
+    stats.trades,
+    stats.wins,
+    stats.losses,
+    await convertToDecimal(stats.win_rate, AMOUNT_DECIMALS),
+    await convertToDecimal(stats.total_pnl, AMOUNT_DECIMALS),
+    await convertToDecimal(stats.avg_pnl, AMOUNT_DECIMALS),
+    await convertToDecimal(stats.gross_profit, AMOUNT_DECIMALS),
+    await convertToDecimal(stats.gross_loss, AMOUNT_DECIMALS),
+    stats.profit_factor === null
+      ? null
+      : await convertToDecimal(stats.profit_factor, AMOUNT_DECIMALS),
+    stats.avg_hold_time,
+    await convertToDecimal(stats.largest_win, AMOUNT_DECIMALS),
+    await convertToDecimal(stats.largest_loss, AMOUNT_DECIMALS),
+    await convertToDecimal(stats.max_drawdown, AMOUNT_DECIMALS),
+    await convertToDecimal(stats.sharpe_ratio, AMOUNT_DECIMALS),
+    await convertToDecimal(running.peak_pnl, AMOUNT_DECIMALS),
+    // Squared amounts carry twice the decimals of the PnL
+    await convertToDecimal(running.sum_squares, 2 * AMOUNT_DECIMALS),
+    running.total_hold_time,
+    timestamp,
+  ];
+}
+
+/**
+ * Converts a stored row of running aggregates back, or returns null for rows stored before
+ * the running aggregates were, which can only be recomputed from the trades.
+ * @param {any} row - The stored row, scaled.
+ * @returns {RunningStatsInterface | null} - The running aggregates.
+ */
+function parseRunningRow(row: any): RunningStatsInterface | null {
+  if (
+    row.peak_pnl === null ||
+    row.sum_squares === null ||
+    row.total_hold_time === null
+  )
+    return null;
+  return {
+    trades: Number(row.trades),
+    wins: Number(row.wins),
+    losses: Number(row.losses),
+    gross_profit: convertFromDecimal(row.gross_profit, AMOUNT_DECIMALS)!,
+    gross_loss: convertFromDecimal(row.gross_loss, AMOUNT_DECIMALS)!,
+    largest_win: convertFromDecimal(row.largest_win, AMOUNT_DECIMALS)!,
+    largest_loss: convertFromDecimal(row.largest_loss, AMOUNT_DECIMALS)!,
+    peak_pnl: convertFromDecimal(row.peak_pnl, AMOUNT_DECIMALS)!,
+    max_drawdown: convertFromDecimal(row.max_drawdown, AMOUNT_DECIMALS)!,
+    sum_squares: convertFromDecimal(row.sum_squares, 2 * AMOUNT_DECIMALS)!,
+    total_hold_time: Number(row.total_hold_time),
+  };
+}
+
+/**
+ * Converts closed trades read from the database, with their scaled pnl.
+ * @param {any[]} result - The closed trades, as stored.
+ * @returns {any[]} - The closed trades, with their net pnl.
+ */
+function parseClosedTrades(result: any[]): any[] {
+  return result.map((trade: any) => ({
+    ...trade,
+    pnl: convertFromDecimal(trade.pnl, AMOUNT_DECIMALS),
+  }));
+}
+
+/**
+ * Recomputes the aggregates of a user from all of their closed trades, overall and per token.
+ * Aggregates are always rebuilt from the trades, so recomputing them is idempotent.
+ *
+ * @param {number} user - The id of the user.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export async function updateUserStats(user: number) {
+  const trades = parseClosedTrades(
+    await getStorage().stats.getClosedTrades(user)
+  );
+  if (trades.length === 0) return;
+
+  // Aggregate the trades overall and by token, in close order
+  const running: Map<string, RunningStatsInterface> = new Map();
+  for (const trade of trades) {
+    for (const token of [STATS_ALL_TOKENS, trade.token]) {
+      running.set(
+        token,
+        addClosedTrade(running.get(token) ?? EMPTY_RUNNING_STATS, trade)
+      );
+    }
+  }
+
+  const timestamp = await getSqlDate();
+  const rows = [];
+  for (const [token, tokenStats] of running) {
+    rows.push(await toStatsRow(user, token, tokenStats, timestamp));
+  }
+
+  await getStorage().stats.save(rows);
+}
+
+/**
+ * Adds closed trades of a user to their stored aggregates, overall and per token, from the
+ * running aggregates of the stored rows. Users without running aggregates for every token
+ * traded, or whose aggregates were changed by another update meanwhile, are recomputed
+ * from all of their closed trades instead.
+ *
+ * @param {number} user - The id of the user.
+ * @param {any[]} trades - The closed trades of the user, in close order, with their net pnl.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+async function addUserClosedTrades(user: number, trades: any[]) {
+  const stored: Map<string, RunningStatsInterface | null> = new Map(
+    (await getStorage().stats.getRunning(user)).map((row: any) => [
+      row.token,
+      parseRunningRow(row),
+    ])
+  );
+
+  const running: Map<string, RunningStatsInterface> = new Map();
+  for (const trade of trades) {
+    for (const token of [STATS_ALL_TOKENS, trade.token]) {
+      const previous = running.get(token) ?? stored.get(token);
+      if (!previous) return updateUserStats(user);
+      running.set(token, addClosedTrade(previous, trade));
+    }
+  }
+
+  const timestamp = await getSqlDate();
+  const rows = [];
+  const expectedTrades = [];
+  for (const [token, tokenStats] of running) {
+    rows.push(await toStatsRow(user, token, tokenStats, timestamp));
+    expectedTrades.push(stored.get(token)!.trades);
+  }
+  if (!(await getStorage().stats.update(rows, expectedTrades))) {
+    await updateUserStats(user);
+  }
+}
+
+/**
+ * Fetches the stored aggregates of a user, overall first and then per token.
+ *
+ * @param {number} user - The id of the user.
+ * @returns {Promise<UserStatsInterface[]>} A promise that resolves to the aggregates of the user.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export async function getUserStats(
+  user: number
+): Promise<UserStatsInterface[]> {
+  const result = await getStorage().stats.getByUser(user, STATS_ALL_TOKENS);
+
+  return result.map((stats: any) => ({
+    ...stats,
+    win_rate: convertFromDecimal(stats.win_rate, AMOUNT_DECIMALS),
+    total_pnl: convertFromDecimal(stats.total_pnl, AMOUNT_DECIMALS),
+    avg_pnl: convertFromDecimal(stats.avg_pnl, AMOUNT_DECIMALS),
+    gross_profit: convertFromDecimal(stats.gross_profit, AMOUNT_DECIMALS),
+    gross_loss: convertFromDecimal(stats.gross_loss, AMOUNT_DECIMALS),
+    profit_factor: convertFromDecimal(stats.profit_factor, AMOUNT_DECIMALS),
+    largest_win: convertFromDecimal(stats.largest_win, AMOUNT_DECIMALS),
+    largest_loss: convertFromDecimal(stats.largest_loss, AMOUNT_DECIMALS),
+    max_drawdown: convertFromDecimal(stats.max_drawdown, AMOUNT_DECIMALS),
+    sharpe_ratio: convertFromDecimal(stats.sharpe_ratio, AMOUNT_DECIMALS),
+  }));
+}
+
+/**
+ * Updates the aggregates of the users owning the trades closed in a batch of committed rows,
+ * from the closing trades only. Errors are logged and left to the next full recompute.
+ *
+ * @param {any[]} rows - The committed rows, tagged with their type.
+ */
+export async function updateClosedTradesStats(rows: any[]) {
+  const tradeIds = rows
+    .filter((row) => row[row.length - 1] === "close")
+    .map((row) => row[1]);
+  if (tradeIds.length === 0) return;
+
+  // A trade written twice in the batch closes once
+  const users: Map<number, any[]> = new Map();
+  try {
+    const trades = parseClosedTrades(
+      await getStorage().stats.getClosedTradesByIds([...new Set(tradeIds)])
+    );
+    for (const trade of trades) {
+      if (!users.has(trade.user)) users.set(trade.user, []);
+      users.get(trade.user)!.push(trade);
+    }
+  } catch (error) {
+    console.log("Error fetching the closed trades of the stats: ", error);
+    return;
+  }
+
+  for (const [user, trades] of users) {
+    try {
+      await addUserClosedTrades(user, trades);
+    } catch (error) {
+      console.log(`Error updating stats of user ${user}: `, error);
+    }
+  }
+}
+
+/**
+ * Recomputes the aggregates of every user with closed trades.
+ */
+export async function recomputeAllStats() {
+  const users = await getStorage().stats.getUsersWithClosedTrades();
+
+  for (const user of users) {
+    try {
+      await updateUserStats(user);
+    } catch (error) {
+      console.log(`Error recomputing stats of user ${user}: `, error);
+    }
+  }
+  console.log("USERS STATS RECOMPUTED... ", users.length);
+}
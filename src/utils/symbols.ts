@@ -1,29 +1,35 @@
 import { REFRESH_INTERVAL } from "../constants";
-import { SQL_TOKENS } from "../constants/tables";
-import { sqlQuery } from "./database";
+import { getStorage } from "../storage";
 
 let cachedPairs: Map<string, boolean> = new Map();
+let refreshTimer: NodeJS.Timeout | null = null;
 
 /**
  * Function to start the periodic refresh of trading pairs
  */
 export const startPairRefresh = () => {
-  setInterval(async () => {
+  refreshTimer = setInterval(async () => {
     await fetchAndCachePairs();
   }, REFRESH_INTERVAL);
 };
 
+/**
+ * Function to stop the periodic refresh of trading pairs
+ */
+export const stopPairRefresh = () => {
+  if (refreshTimer) clearInterval(refreshTimer);
+  refreshTimer = null;
+};
+
 /**
  * Function to fetch trading pairs from the database and cache them
  */
 export const fetchAndCachePairs = async (): Promise<void> => {
   try {
     console.log("REFRESHING CACHE PAIRS");
-    const query = `
-       SELECT symbol FROM ${SQL_TOKENS} WHERE is_active=1`;
-    const result = await sqlQuery(query);
+    const symbols = await getStorage().tokens.getActiveSymbols();
     let newCachedPairs: Map<string, boolean> = new Map();
-    result.forEach((pair: any) => newCachedPairs.set(pair.symbol, true));
+    symbols.forEach((symbol) => newCachedPairs.set(symbol, true));
     cachedPairs = newCachedPairs;
   } catch (error) {
     console.error("Error fetching trading pairs:", error);
@@ -31,6 +37,14 @@ export const fetchAndCachePairs = async (): Promise<void> => {
   }
 };
 
+/**
+ * Function to track a fixed set of trading pairs, instead of the ones of the database
+ * @param {string[]} symbols - The symbols to track (e.g. BTCUSD).
+ */
+export const trackSymbols = (symbols: string[]) => {
+  cachedPairs = new Map(symbols.map((symbol) => [symbol, true]));
+};
+
 /**
  *  Function to get the cached trading pairs
  */
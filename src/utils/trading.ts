@@ -1,18 +1,46 @@
-import { SERVER_GROUP } from "../constants";
-import { CLOSED_STATUS, OPEN_STATUS } from "../constants/dydx";
+import Decimal from "decimal.js";
 import {
-  SQL_TRADES_DEX,
-  SQL_USERS,
-  SQL_USERS_WALLETS,
-} from "../constants/tables";
-import { sqlQuery } from "./database";
+  AMOUNT_DECIMALS,
+  CLOSE_REASON_UNRESOLVED,
+  PAGE_SIZE_TRADES,
+  PRICE_DECIMALS,
+  SERVER_GROUP,
+} from "../constants";
+import {
+  ALL_SUBACCOUNTS,
+  CLOSED_STATUS,
+  DEFAULT_SUBACCOUNT,
+  DYDX_TRADER_TYPE,
+  OPEN_STATUS,
+} from "../constants/dydx";
+import { getStorage } from "../storage";
+import { convertToSqlDate } from "./database";
+import {
+  DydxPositionInterface,
+  PageInterface,
+  PositionChangeFillInterface,
+  TradeFiltersInterface,
+  TradeInterface,
+} from "../constants/interfaces";
 import {
   closePosition,
+  convertFromDecimal,
   createNewPosition,
   flipPosition,
+  getCloseReason,
+  recordFills,
   updateExistingPosition,
 } from "./functions";
+import {
+  getAddressSubaccounts,
+  getFills,
+  getPerpetualPositions,
+} from "./indexer";
+import { splitFees, sumFees } from "./pnl";
+import { incrementCounter } from "./metrics";
 import { isTrackedSymbol } from "./symbols";
+import { validateFill, validatePosition } from "./validation";
+import { aggregatePositions } from "../services/processor";
 
 /**
  * Fetches a list of active traders from the database filtered by the server group.
@@ -22,28 +50,300 @@ import { isTrackedSymbol } from "./symbols";
  */
 export const getTraders = async (): Promise<any[]> => {
   try {
-    const result = await sqlQuery(
-      `
-        SELECT user, address FROM ${SQL_USERS_WALLETS} 
-        WHERE trader_type=3 AND server_group=? AND is_active=1`,
-      [SERVER_GROUP]
+    return await getStorage().traders.getActive(
+      DYDX_TRADER_TYPE,
+      SERVER_GROUP ?? ""
     );
-
-    return result;
   } catch (error) {
     console.error("Error fetching traders: ", error);
     throw error;
   }
 };
 
+/**
+ * Resolves the subaccounts to follow for a trader from the `subaccounts` column of
+ * `users_wallets`: a comma separated list of subaccount numbers, or "all" to follow
+ * every subaccount discovered on the indexer. Defaults to subaccount 0.
+ *
+ * @param {any} trader - The trader row as returned by getTraders.
+ * @returns {Promise<number[]>} A promise that resolves to the subaccount numbers to follow.
+ */
+export const getTraderSubaccounts = async (trader: any): Promise<number[]> => {
+  const subaccounts = (trader.subaccounts ?? "").toString().trim();
+  if (!subaccounts) return [DEFAULT_SUBACCOUNT];
+
+  if (subaccounts.toLowerCase() === ALL_SUBACCOUNTS) {
+    const discovered = await getAddressSubaccounts(trader.address);
+    return discovered.length > 0 ? discovered : [DEFAULT_SUBACCOUNT];
+  }
+
+  return subaccounts
+    .split(",")
+    .map((subaccount: string) => parseInt(subaccount, 10))
+    .filter((subaccount: number) => !isNaN(subaccount));
+};
+
+/**
+ * Fetches the active traders and expands them into one entry per subaccount to follow.
+ * Traders whose subaccounts cannot be resolved are skipped until the next refresh.
+ *
+ * @returns {Promise<any[]>} A promise that resolves to an array of objects with the user, address and subaccount to subscribe.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const getTraderSubscriptions = async (): Promise<any[]> => {
+  const traders = await getTraders();
+  const subscriptions = [];
+
+  for (const trader of traders) {
+    try {
+      const subaccounts = await getTraderSubaccounts(trader);
+      for (const subaccount of subaccounts) {
+        subscriptions.push({
+          id: `${trader.address}/${subaccount}`,
+          user: trader.user,
+          address: trader.address,
+          subaccount,
+        });
+      }
+    } catch (error) {
+      console.error(`Error resolving subaccounts of ${trader.address}`, error);
+    }
+  }
+
+  return subscriptions;
+};
+
+/**
+ * Converts a stored trade back into a trader position, reversing the scaling of its amounts.
+ *
+ * @param {any} trade - The trade as fetched from the trades repository.
+ * @returns {TradeInterface} The trade with its amounts as decimal strings.
+ */
+const parseTradeRow = (trade: any): TradeInterface => ({
+  ...trade,
+  size: convertFromDecimal(trade.size, AMOUNT_DECIMALS),
+  sum_open: convertFromDecimal(trade.sum_open, AMOUNT_DECIMALS),
+  sum_close: convertFromDecimal(trade.sum_close, AMOUNT_DECIMALS) ?? "0",
+  limit_price: convertFromDecimal(trade.limit_price, PRICE_DECIMALS),
+  exit_price: convertFromDecimal(trade.exit_price, PRICE_DECIMALS),
+  end_date: trade.end_date ?? null,
+  funding: convertFromDecimal(trade.funding, AMOUNT_DECIMALS),
+  realised_pnl: convertFromDecimal(trade.realised_pnl, AMOUNT_DECIMALS),
+  gross_pnl: convertFromDecimal(trade.gross_pnl, AMOUNT_DECIMALS) ?? "0",
+  fees: convertFromDecimal(trade.fees, AMOUNT_DECIMALS) ?? "0",
+  net_pnl: convertFromDecimal(trade.net_pnl, AMOUNT_DECIMALS) ?? "0",
+  pnl: convertFromDecimal(trade.pnl, AMOUNT_DECIMALS),
+});
+
+/**
+ * Fetches the open trades (without end date) of a trader subaccount from the database and
+ * rebuilds the in-memory positions from them, keyed by symbol.
+ *
+ * @param {string} traderAddress - The blockchain address of the trader.
+ * @param {number} subaccount - The subaccount number of the trader.
+ * @returns {Promise<Map<string, TradeInterface>>} A promise that resolves to the open positions of the trader.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const getOpenPositions = async (
+  traderAddress: string,
+  subaccount: number
+): Promise<Map<string, TradeInterface>> => {
+  try {
+    const result = await getStorage().trades.getOpenByTrader(
+      traderAddress,
+      subaccount
+    );
+
+    let positions: Map<string, TradeInterface> = new Map();
+    result.forEach((trade: any) =>
+      positions.set(trade.token, parseTradeRow(trade))
+    );
+    return positions;
+  } catch (error) {
+    console.error(`Error fetching open positions of ${traderAddress}: `, error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches the open trades (without end date) stored in the database matching the given
+ * filters, oldest first. Unlike getOpenPositions, they are not keyed by symbol, so the
+ * trades of several traders can be listed at once.
+ *
+ * @param {TradeFiltersInterface} filters - The user, address and token to filter by.
+ * @returns {Promise<TradeInterface[]>} A promise that resolves to the open trades.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const getOpenTrades = async (
+  filters: TradeFiltersInterface
+): Promise<TradeInterface[]> => {
+  try {
+    const result = await getStorage().trades.getOpen(filters);
+    return result.map(parseTradeRow);
+  } catch (error) {
+    console.error("Error fetching open trades: ", error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches a page of the closed trades matching the given filters, most recently closed first.
+ *
+ * @param {TradeFiltersInterface} filters - The user, address, token and close date range to filter by.
+ * @param {number} page - The page to fetch, starting at 1.
+ * @param {number} limit - The number of trades per page.
+ * @returns {Promise<PageInterface<TradeInterface>>} A promise that resolves to the page of closed trades.
+ * @throws {Error} Throws an error if the database query fails, to be handled by the caller.
+ */
+export const getClosedTrades = async (
+  filters: TradeFiltersInterface,
+  page: number,
+  limit: number
+): Promise<PageInterface<TradeInterface>> => {
+  try {
+    const { rows, total } = await getStorage().trades.getClosed(
+      {
+        ...filters,
+        from:
+          filters.from === undefined
+            ? undefined
+            : convertToSqlDate(filters.from),
+        to: filters.to === undefined ? undefined : convertToSqlDate(filters.to),
+      },
+      page,
+      limit
+    );
+
+    return {
+      data: rows.map(parseTradeRow),
+      page,
+      limit,
+      total,
+    };
+  } catch (error) {
+    console.error("Error fetching closed trades: ", error);
+    throw error;
+  }
+};
+
+/**
+ * Closes the positions of a trader that are no longer open according to a subscription
+ * snapshot, i.e. positions closed while disconnected that the backfill could not replay.
+ * The close is looked up in the history of the indexer REST API, so the trade is closed
+ * with its exit price, fees and close reason. Trades whose close can't be found are closed
+ * with the "unresolved" reason and the PnL realised so far, instead of staying open.
+ *
+ * @param {number} user - The id corresponding the user for the given trader.
+ * @param {Map} TRADER_POSITIONS - A map containing the current state of trader positions.
+ * @param {string} traderAddress - The blockchain address of the trader.
+ * @param {number} subaccount - The subaccount number of the trader the positions belong to.
+ * @param {Object} positions - The open positions data from the subscription, keyed by market.
+ */
+export const closeMissingPositions = async (
+  user: number,
+  TRADER_POSITIONS: any,
+  traderAddress: string,
+  subaccount: number,
+  positions: { [market: string]: DydxPositionInterface }
+) => {
+  const openSymbols = new Set(
+    Object.keys(positions || {}).map((market) => market.replace(/-/g, ""))
+  );
+  const missing = Array.from(TRADER_POSITIONS.keys()).filter(
+    (symbol: any) => !openSymbols.has(symbol)
+  );
+  if (missing.length === 0) return;
+
+  let closed: DydxPositionInterface[] = [];
+  let fills: any[] = [];
+  try {
+    closed = (
+      await getPerpetualPositions(traderAddress, subaccount, PAGE_SIZE_TRADES)
+    ).filter(
+      (position) =>
+        position.status == CLOSED_STATUS && validatePosition(position) === null
+    );
+    fills = (
+      await getFills(traderAddress, subaccount, PAGE_SIZE_TRADES)
+    ).filter((fill) => validateFill(fill) === null);
+  } catch (error) {
+    console.error(
+      `Error fetching the closed positions of ${traderAddress}/${subaccount}: `,
+      error
+    );
+  }
+
+  for (const symbol of missing) {
+    const trader_position = TRADER_POSITIONS.get(symbol);
+    // The first close of the market since the trade was opened
+    const position = closed
+      .filter(
+        (position) =>
+          position.market.replace(/-/g, "") === symbol &&
+          Date.parse(position.closedAt as string) >=
+            Date.parse(trader_position.start_date)
+      )
+      .sort(
+        (a, b) =>
+          Number(a.closedAtHeight) - Number(b.closedAtHeight) ||
+          Date.parse(a.closedAt as string) - Date.parse(b.closedAt as string)
+      )[0];
+
+    if (position) {
+      console.log(
+        `Trade ${trader_position.trade_id} of ${traderAddress} was closed while disconnected, closing it`
+      );
+      const closingFills = fills.filter(
+        (fill) =>
+          fill.market === position.market &&
+          fill.createdAtHeight === position.closedAtHeight
+      );
+      await updatePosition(
+        user,
+        TRADER_POSITIONS,
+        traderAddress,
+        subaccount,
+        [position],
+        closingFills.length > 0
+          ? closingFills
+          : [
+              {
+                createdAt: position.closedAt as string,
+                createdAtHeight: position.closedAtHeight as string,
+              },
+            ]
+      );
+      continue;
+    }
+
+    console.warn(
+      `Trade ${trader_position.trade_id} of ${traderAddress} is no longer open and its close was not found, closing it as unresolved`
+    );
+    trader_position.end_date = new Date().toISOString();
+    trader_position.pnl = trader_position.net_pnl;
+    trader_position.is_profitable = new Decimal(
+      trader_position.net_pnl
+    ).greaterThan(0)
+      ? 1
+      : 0;
+    trader_position.close_reason = CLOSE_REASON_UNRESOLVED;
+    trader_position.type = "close";
+    // Without its exit, the close is not notified
+    await aggregatePositions(trader_position);
+    TRADER_POSITIONS.delete(symbol);
+  }
+};
+
 /**
  * Processes new subscription data for a dYdX trader, initializing their trading positions.
  * This function takes the current state of trader positions and updates it based on incoming data,
- * ensuring that only new and tracked symbols are added to the trader's portfolio.
+ * ensuring that only new and tracked symbols are added to the trader's portfolio. Positions already
+ * known (e.g. restored from the database) continue their trade, catching up with any change.
  *
  * @param {number} user - The id corresponding the user for the given trader.
  * @param {Map} TRADER_POSITIONS - A map containing the current state of trader positions.
  * @param {string} traderAddress - The blockchain address of the trader.
+ * @param {number} subaccount - The subaccount number of the trader the positions belong to.
  * @param {Object} positions - The positions data from the subscription, keyed by symbol.
  * @returns {Promise<Object>} Returns an object containing the updated trader positions and an array of new positions to be created.
  */
@@ -51,7 +351,8 @@ export const processSubscriptions = async (
   user: number,
   TRADER_POSITIONS: any,
   traderAddress: string,
-  positions: any
+  subaccount: number,
+  positions: { [market: string]: DydxPositionInterface } | undefined
 ): Promise<any> => {
   if (!positions || Object.keys(positions).length === 0) return;
 
@@ -62,14 +363,39 @@ export const processSubscriptions = async (
         // Get trader position
         const symbol = symbol_.replace(/-/g, "");
         if (!(await isTrackedSymbol(symbol))) continue;
-        if (TRADER_POSITIONS.get(symbol)) continue;
         const position = positions[symbol_];
 
+        // Catch up with the changes of a known position made while disconnected
+        const trader_position = TRADER_POSITIONS.get(symbol);
+        if (trader_position) {
+          const bias = position.side == "LONG" ? 1 : 0;
+          if (
+            trader_position.bias !== bias ||
+            !new Decimal(trader_position.size).equals(position.size)
+          ) {
+            await updatePosition(
+              user,
+              TRADER_POSITIONS,
+              traderAddress,
+              subaccount,
+              [position],
+              [
+                {
+                  createdAt: position.createdAt,
+                  createdAtHeight: position.createdAtHeight,
+                },
+              ]
+            );
+          }
+          continue;
+        }
+
         // Fill trade position
         const new_position = await createNewPosition(
           user,
           position,
           traderAddress,
+          subaccount,
           position?.createdAtHeight,
           position?.createdAt,
           "update"
@@ -100,6 +426,7 @@ export const processSubscriptions = async (
  * @param {number} user - The id corresponding the user for the given trader.
  * @param {Map} TRADER_POSITIONS - A map containing the current state of trader positions.
  * @param {string} traderAddress - The blockchain address of the trader.
+ * @param {number} subaccount - The subaccount number of the trader the positions belong to.
  * @param {Array} positions - Array of current positions for the trader.
  * @param {Array} fills - Array of fill data that might affect position calculations.
  * @returns {Promise<Object>} Returns an object containing maps and arrays of updates to process.
@@ -108,8 +435,9 @@ export const updatePosition = async (
   user: number,
   TRADER_POSITIONS: any,
   traderAddress: string,
-  positions: any,
-  fills: any
+  subaccount: number,
+  positions: DydxPositionInterface[] | undefined,
+  fills: PositionChangeFillInterface[] | undefined
 ) => {
   if (!fills) return;
   if (!positions) return;
@@ -121,19 +449,31 @@ export const updatePosition = async (
         const symbol = position.market.replace(/-/g, "");
         const bias = position.side == "LONG" ? 1 : 0;
         if (!(await isTrackedSymbol(symbol))) continue;
+        // Nothing to close if the position was never tracked (or was already closed)
+        if (position.status == CLOSED_STATUS && !TRADER_POSITIONS.has(symbol))
+          continue;
         let trader_position = !TRADER_POSITIONS.has(symbol)
           ? {}
           : TRADER_POSITIONS.get(symbol);
+        const previous_trade_id = trader_position.trade_id;
+        const market_fills = fills.filter(
+          (fill: any) => (fill.market ?? fill.ticker) === position.market
+        );
+        const fees = sumFees(market_fills);
 
         // CASE 1: create completely new position
         if (!TRADER_POSITIONS.has(symbol)) {
           console.log("CASE 1 --> new position: ", traderAddress);
+          incrementCounter("dydx_position_events_total", { event: "open" });
           trader_position = await createNewPosition(
             user,
             position,
             traderAddress,
+            subaccount,
             fills[0].createdAtHeight,
-            fills[0].createdAt
+            fills[0].createdAt,
+            "open",
+            fees
           );
         }
 
@@ -143,9 +483,11 @@ export const updatePosition = async (
           trader_position.bias === bias
         ) {
           console.log("CASE 2 --> update position: ", traderAddress);
+          incrementCounter("dydx_position_events_total", { event: "update" });
           trader_position = await updateExistingPosition(
             trader_position,
-            position
+            position,
+            fees
           );
         }
 
@@ -155,25 +497,59 @@ export const updatePosition = async (
           trader_position.bias !== bias
         ) {
           console.log("CASE 3 --> change position: ", traderAddress);
-          await flipPosition(trader_position, position, fills[0].createdAt);
+          incrementCounter("dydx_position_events_total", { event: "flip" });
+          const [close_fees, open_fees] = splitFees(
+            fees,
+            trader_position.size,
+            position.size
+          );
+          await flipPosition(
+            trader_position,
+            position,
+            fills[0].createdAt,
+            close_fees
+          );
           trader_position = await createNewPosition(
             user,
             position,
             traderAddress,
+            subaccount,
             fills[0].createdAtHeight,
-            fills[0].createdAt
+            fills[0].createdAt,
+            "open",
+            open_fees
           );
         }
 
         // CASE 4: close completely the position
         else if (position.status == CLOSED_STATUS) {
-          console.log("CASE 4 --> close position: ", traderAddress);
-          await closePosition(trader_position, position, fills[0].createdAt);
+          const close_reason = getCloseReason(market_fills);
+          console.log(
+            `CASE 4 --> close position (${close_reason}): `,
+            traderAddress
+          );
+          incrementCounter("dydx_position_events_total", { event: "close" });
+          await closePosition(
+            trader_position,
+            position,
+            fills[0].createdAt,
+            fees,
+            close_reason
+          );
           trader_position = null;
         } else throw "Unrecognised case";
 
         if (!trader_position) TRADER_POSITIONS.delete(symbol);
         else TRADER_POSITIONS.set(symbol, trader_position);
+
+        // Record the fills of the market, linked to the trade they opened, changed or closed
+        await recordFills(
+          user,
+          traderAddress,
+          subaccount,
+          trader_position ? trader_position.trade_id : previous_trade_id,
+          market_fills
+        );
       } catch (error) {
         console.log(
           `Error updating position for ${traderAddress} and: `,
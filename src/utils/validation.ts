@@ -0,0 +1,193 @@
+import {
+  ADDRESS_PREFIX,
+  BECH32_CHARSET,
+  CLOSED_STATUS,
+  DATA_TYPE,
+  FILL_SIDES,
+  OPEN_STATUS,
+  POSITION_SIDES,
+  SUBSCRIPTION_TYPE,
+} from "../constants/dydx";
+
+/**
+ * Checks that a value is a decimal number sent as a string, as the indexer does.
+ * @param {any} value - The value to check.
+ * @returns {boolean} - Whether the value is a numeric string.
+ */
+function isNumeric(value: any): boolean {
+  return (
+    typeof value === "string" && value.trim() !== "" && isFinite(Number(value))
+  );
+}
+
+/**
+ * Checks that a value is a date string.
+ * @param {any} value - The value to check.
+ * @returns {boolean} - Whether the value is a parsable date.
+ */
+function isDate(value: any): boolean {
+  return typeof value === "string" && !isNaN(Date.parse(value));
+}
+
+/**
+ * Computes the BCH checksum of bech32 over a list of 5-bit values.
+ * @param {number[]} values - The expanded prefix followed by the data values.
+ * @returns {number} - The checksum, 1 for a valid bech32 string.
+ */
+function bech32Polymod(values: number[]): number {
+  const generator = [
+    0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+  ];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generator.forEach((g, i) => {
+      if ((top >>> i) & 1) checksum ^= g;
+    });
+  }
+  return checksum;
+}
+
+/**
+ * Checks that an address is a dYdX v4 address: lowercase bech32 with the dydx prefix
+ * (dydx1...) and a valid checksum.
+ * @param {any} address - The address to check.
+ * @returns {string | null} - The reason the address is invalid, or null if it is valid.
+ */
+export function validateAddress(address: any): string | null {
+  if (typeof address !== "string" || address === "")
+    return "address is not a string";
+  if (address !== address.toLowerCase())
+    return `address ${address} is not lowercase`;
+  const separator = address.lastIndexOf("1");
+  if (address.slice(0, separator) !== ADDRESS_PREFIX)
+    return `address ${address} is not a dYdX address (${ADDRESS_PREFIX}1...)`;
+
+  const values = address
+    .slice(separator + 1)
+    .split("")
+    .map((char) => BECH32_CHARSET.indexOf(char));
+  if (values.includes(-1))
+    return `address ${address} has characters outside of bech32`;
+  if (values.length < 6 || address.length > 90)
+    return `address ${address} has an invalid length`;
+
+  const prefix = ADDRESS_PREFIX.split("").map((char) => char.charCodeAt(0));
+  const expanded = [
+    ...prefix.map((code) => code >> 5),
+    0,
+    ...prefix.map((code) => code & 31),
+  ];
+  if (bech32Polymod([...expanded, ...values]) !== 1)
+    return `address ${address} has an invalid checksum`;
+  return null;
+}
+
+/**
+ * Checks that a perpetual position sent by the indexer is well formed. The positions of the
+ * changes of the subaccounts channel don't carry their creation, unlike the positions of the
+ * subscription snapshot and of the REST API.
+ * @param {any} position - The position to check.
+ * @param {boolean} [withCreation=true] - Whether the position carries its createdAt and createdAtHeight.
+ * @returns {string | null} - The reason the position is invalid, or null if it is valid.
+ */
+export function validatePosition(
+  position: any,
+  withCreation: boolean = true
+): string | null {
+  if (!position || typeof position !== "object")
+    return "position is not an object";
+  if (typeof position.market !== "string") return "position without market";
+  if (![OPEN_STATUS, CLOSED_STATUS].includes(position.status))
+    return `position ${position.market} with unknown status ${position.status}`;
+  if (!POSITION_SIDES.includes(position.side))
+    return `position ${position.market} with unknown side ${position.side}`;
+  for (const field of ["size", "sumOpen", "sumClose", "entryPrice"]) {
+    if (!isNumeric(position[field]))
+      return `position ${position.market} with invalid ${field}`;
+  }
+  if (position.exitPrice != null && !isNumeric(position.exitPrice))
+    return `position ${position.market} with invalid exitPrice`;
+  if (position.netFunding != null && !isNumeric(position.netFunding))
+    return `position ${position.market} with invalid netFunding`;
+  if (!withCreation) return null;
+  if (!isDate(position.createdAt))
+    return `position ${position.market} with invalid createdAt`;
+  if (!isNumeric(position.createdAtHeight))
+    return `position ${position.market} with invalid createdAtHeight`;
+  return null;
+}
+
+/**
+ * Checks that a fill sent by the indexer is well formed. The fee is optional in the fills of
+ * the subaccounts channel, and recorded as 0 when missing.
+ * @param {any} fill - The fill to check.
+ * @returns {string | null} - The reason the fill is invalid, or null if it is valid.
+ */
+export function validateFill(fill: any): string | null {
+  if (!fill || typeof fill !== "object") return "fill is not an object";
+  if (typeof fill.id !== "string") return "fill without id";
+  if (typeof (fill.market ?? fill.ticker) !== "string")
+    return `fill ${fill.id} without market`;
+  if (!FILL_SIDES.includes(fill.side))
+    return `fill ${fill.id} with unknown side ${fill.side}`;
+  if (typeof fill.type !== "string") return `fill ${fill.id} without type`;
+  for (const field of ["size", "price"]) {
+    if (!isNumeric(fill[field])) return `fill ${fill.id} with invalid ${field}`;
+  }
+  if (fill.fee != null && !isNumeric(fill.fee))
+    return `fill ${fill.id} with invalid fee`;
+  if (!isDate(fill.createdAt)) return `fill ${fill.id} with invalid createdAt`;
+  if (!isNumeric(fill.createdAtHeight))
+    return `fill ${fill.id} with invalid createdAtHeight`;
+  return null;
+}
+
+/**
+ * Checks that a message of the subaccounts channel is well formed: the snapshot of a
+ * subscription, or the positions and fills of a change. Other types of messages are not
+ * processed and are not checked.
+ * @param {any} message - The parsed message.
+ * @returns {string | null} - The reason the message is invalid, or null if it is valid.
+ */
+export function validateMessage(message: any): string | null {
+  if (!message || typeof message !== "object")
+    return "message is not an object";
+  if (message.type !== SUBSCRIPTION_TYPE && message.type !== DATA_TYPE)
+    return null;
+  if (typeof message.id !== "string" || !/^[^/]+\/\d+$/.test(message.id))
+    return `invalid id ${message.id}`;
+  if (!message.contents || typeof message.contents !== "object")
+    return "message without contents";
+
+  if (message.type === SUBSCRIPTION_TYPE) {
+    const positions = message.contents.subaccount?.openPerpetualPositions;
+    if (positions == null) return null;
+    if (typeof positions !== "object" || Array.isArray(positions))
+      return "openPerpetualPositions is not an object";
+    for (const position of Object.values(positions)) {
+      const reason = validatePosition(position);
+      if (reason) return reason;
+    }
+    return null;
+  }
+
+  const { perpetualPositions, fills } = message.contents;
+  if (perpetualPositions != null) {
+    if (!Array.isArray(perpetualPositions))
+      return "perpetualPositions is not an array";
+    for (const position of perpetualPositions) {
+      const reason = validatePosition(position, false);
+      if (reason) return reason;
+    }
+  }
+  if (fills != null) {
+    if (!Array.isArray(fills)) return "fills is not an array";
+    for (const fill of fills) {
+      const reason = validateFill(fill);
+      if (reason) return reason;
+    }
+  }
+  return null;
+}
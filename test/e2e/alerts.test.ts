@@ -0,0 +1,61 @@
+import { TradeEventInterface } from "../../src/constants/interfaces";
+import { aggregatePositions } from "../../src/services/processor";
+import { evaluateAlerts } from "../../src/utils/alerts";
+import { flipPosition } from "../../src/utils/functions";
+
+// The trade events are captured instead of being written
+jest.mock("../../src/services/processor", () => ({
+  aggregatePositions: jest.fn(),
+  aggregateFill: jest.fn(),
+}));
+
+describe("alert rules", () => {
+  it("alerts on the loss of a long flipped straight into a short", async () => {
+    const trader_position = {
+      user: 1,
+      trade_id: "dydx1trader-BTCUSD-LONG-1",
+      trader_address: "dydx1trader",
+      subaccount: 0,
+      token: "BTCUSD",
+      bias: 1,
+      size: "1",
+      sum_open: "1",
+      sum_close: "0",
+      limit_price: "100",
+      exit_price: null,
+      start_date: "2024-01-01T00:00:00.000Z",
+      end_date: null,
+      funding: "0",
+      fees: "0",
+    };
+    // Sold 2 at 70: 1 closes the long, 1 opens the short
+    await flipPosition(
+      trader_position,
+      {
+        market: "BTC-USD",
+        side: "SHORT",
+        size: "-1",
+        sumOpen: "2",
+        sumClose: "0",
+        entryPrice: "70",
+        netFunding: "0",
+      },
+      "2024-01-02T00:00:00.000Z"
+    );
+    const event: TradeEventInterface = (aggregatePositions as jest.Mock).mock
+      .calls[0][1];
+    expect(event).toMatchObject({ event: "flipped", pnl: { net_pnl: "-30" } });
+
+    const alerts = evaluateAlerts(event, [
+      {
+        id: "large-loss",
+        condition: "loss_above",
+        events: ["flipped"],
+        threshold: 20,
+      },
+    ]);
+    expect(alerts.map((alert) => alert.reason)).toEqual([
+      "LONG BTCUSD loss of 30.00% beyond 20%",
+    ]);
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  FollowerInterface,
+  OrderIntentInterface,
+  TradeEventInterface,
+} from "../../src/constants/interfaces";
+import {
+  commitOrderIntents,
+  generateOrderIntents,
+} from "../../src/utils/copytrading";
+import { buildTradeEvent } from "../../src/utils/events";
+import { getSubaccountEquity } from "../../src/utils/indexer";
+
+// The equity of the traders is fetched from the indexer
+jest.mock("../../src/utils/indexer", () => ({
+  getSubaccountEquity: jest.fn(async () => "20000"),
+}));
+
+let height = 0;
+
+/**
+ * Builds a trade event of the followed trader, with a dedup key of its own.
+ */
+function tradeEvent(
+  event: string,
+  token: string,
+  bias: number,
+  previous_size: string,
+  size: string,
+  price: string | null
+): TradeEventInterface {
+  height++;
+  return buildTradeEvent(
+    event,
+    {
+      user: 1,
+      trade_id: `dydx1trader-${token}-${bias === 1 ? "LONG" : "SHORT"}`,
+      trader_address: "dydx1trader",
+      subaccount: 0,
+      token,
+      bias,
+      size,
+      sum_open: String(height),
+      sum_close: "0",
+    },
+    previous_size,
+    size,
+    price
+  );
+}
+
+/**
+ * Generates the order intents of a follower for an event and commits them.
+ */
+async function follow(
+  follower: FollowerInterface,
+  event: TradeEventInterface
+): Promise<OrderIntentInterface[]> {
+  const intents = await generateOrderIntents(event, [follower]);
+  commitOrderIntents(intents);
+  return intents;
+}
+
+describe("copy trading", () => {
+  it("scales the positions by a fixed ratio", async () => {
+    const follower: FollowerInterface = {
+      id: "ratio",
+      traders: ["dydx1trader/0"],
+      sizing: "ratio",
+      ratio: 0.5,
+    };
+    const intents = await follow(
+      follower,
+      tradeEvent("opened", "BTCUSD", 1, "0", "2", "100")
+    );
+    expect(intents).toMatchObject([
+      {
+        intent_id: `ratio:${intents[0].source.trade_id}:opened`,
+        market: "BTC-USD",
+        side: "BUY",
+        size: "1",
+        reduce_only: false,
+        target_size: "1",
+      },
+    ]);
+  });
+
+  it("scales the positions by the equity of the follower", async () => {
+    const follower: FollowerInterface = {
+      id: "equity",
+      users: [1],
+      sizing: "equity",
+      equity: 1000,
+    };
+    const intents = await follow(
+      follower,
+      tradeEvent("opened", "BTCUSD", -1, "0", "10", "100")
+    );
+    expect(getSubaccountEquity).toHaveBeenCalledWith("dydx1trader", 0);
+    expect(intents).toMatchObject([
+      { side: "SELL", size: "0.5", reduce_only: false, target_size: "-0.5" },
+    ]);
+  });
+
+  it("caps the notional of a token", async () => {
+    const follower: FollowerInterface = {
+      id: "caps",
+      traders: ["dydx1trader/0"],
+      sizing: "ratio",
+      ratio: 1,
+      caps: { BTCUSD: 50 },
+    };
+    const intents = await follow(
+      follower,
+      tradeEvent("opened", "BTCUSD", 1, "0", "2", "100")
+    );
+    expect(intents).toMatchObject([{ size: "0.5", target_size: "0.5" }]);
+  });
+
+  it("shares the maximum leverage across the positions", async () => {
+    const follower: FollowerInterface = {
+      id: "leverage",
+      traders: ["dydx1trader/0"],
+      sizing: "ratio",
+      ratio: 1,
+      equity: 1000,
+      max_leverage: 2,
+    };
+    expect(
+      await follow(
+        follower,
+        tradeEvent("opened", "ETHUSD", 1, "0", "15", "100")
+      )
+    ).toMatchObject([{ target_size: "15" }]);
+    // 1500 of the 2000 allowed are used by ETHUSD
+    expect(
+      await follow(
+        follower,
+        tradeEvent("opened", "BTCUSD", 1, "0", "10", "100")
+      )
+    ).toMatchObject([{ side: "BUY", size: "5", target_size: "5" }]);
+
+    // ETHUSD would now be limited below its current size: an increase doesn't reduce it
+    expect(
+      await follow(
+        follower,
+        tradeEvent("increased", "ETHUSD", 1, "15", "16", "110")
+      )
+    ).toEqual([]);
+  });
+
+  it("closes the position on a flip, then follows the reopened one", async () => {
+    const follower: FollowerInterface = {
+      id: "flip",
+      traders: ["dydx1trader/0"],
+      sizing: "ratio",
+      ratio: 1,
+    };
+    await follow(follower, tradeEvent("opened", "BTCUSD", 1, "0", "2", "100"));
+
+    expect(
+      await follow(follower, tradeEvent("flipped", "BTCUSD", 1, "2", "0", "90"))
+    ).toMatchObject([
+      { side: "SELL", size: "2", reduce_only: true, target_size: "0" },
+    ]);
+    expect(
+      await follow(follower, tradeEvent("opened", "BTCUSD", -1, "0", "1", "90"))
+    ).toMatchObject([
+      { side: "SELL", size: "1", reduce_only: false, target_size: "-1" },
+    ]);
+  });
+
+  it("reduces then closes the whole position", async () => {
+    const follower: FollowerInterface = {
+      id: "close",
+      traders: ["dydx1trader/0"],
+      sizing: "ratio",
+      ratio: 0.5,
+    };
+    await follow(follower, tradeEvent("opened", "BTCUSD", -1, "0", "3", "100"));
+
+    expect(
+      await follow(
+        follower,
+        tradeEvent("reduced", "BTCUSD", -1, "3", "1", "100")
+      )
+    ).toMatchObject([
+      { side: "BUY", size: "1", reduce_only: true, target_size: "-0.5" },
+    ]);
+    // Closed positions don't carry a price, the last known one is used
+    expect(
+      await follow(follower, tradeEvent("closed", "BTCUSD", -1, "1", "0", null))
+    ).toMatchObject([
+      {
+        side: "BUY",
+        size: "0.5",
+        reduce_only: true,
+        reference_price: "100",
+        target_size: "0",
+      },
+    ]);
+  });
+
+  it("builds on the intents not committed yet", async () => {
+    const follower: FollowerInterface = {
+      id: "pending",
+      traders: ["dydx1trader/0"],
+      sizing: "ratio",
+      ratio: 1,
+    };
+    const opened = await generateOrderIntents(
+      tradeEvent("opened", "BTCUSD", 1, "0", "2", "100"),
+      [follower]
+    );
+    const increased = await generateOrderIntents(
+      tradeEvent("increased", "BTCUSD", 1, "2", "3", "100"),
+      [follower]
+    );
+    expect(increased).toMatchObject([{ size: "1", target_size: "3" }]);
+    commitOrderIntents([...opened, ...increased]);
+  });
+});
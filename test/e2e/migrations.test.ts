@@ -0,0 +1,149 @@
+import fs from "fs";
+import { DYDX_TRADER_TYPE } from "../../src/constants/dydx";
+import { StorageDriverInterface } from "../../src/constants/interfaces";
+import {
+  SQL_TOKENS,
+  SQL_TRADES_DEX,
+  SQL_USERS,
+} from "../../src/constants/tables";
+import { closeDatabase, connectDatabase } from "../../src/config/database";
+import { createStorage } from "../../src/storage";
+import {
+  checkSchema,
+  getPendingMigrations,
+  loadMigrations,
+  migrate,
+  splitStatements,
+} from "../../src/storage/migrations";
+import { createSqliteDriver } from "../../src/storage/sqlite";
+import { addUser, addWallet } from "../../src/utils/admin";
+import { getTraders } from "../../src/utils/trading";
+import { fillRow, tradeRow } from "../support/database";
+import { startPostgres } from "../support/postgres";
+
+/**
+ * Creates a database from the former schema.sql (migration 1, without recording it) with an
+ * open trade, applies the migrations over it, then closes the trade through the repository.
+ * @param {StorageDriverInterface} driver - The storage client of the database.
+ * @returns {Promise<any[]>} - The trades stored.
+ */
+async function upgradeFormerSchema(
+  driver: StorageDriverInterface
+): Promise<any[]> {
+  const [initial] = loadMigrations(driver.client);
+  for (const statement of splitStatements(
+    fs.readFileSync(initial.file, "utf8")
+  )) {
+    await driver.query(statement);
+  }
+  await driver.query(`INSERT INTO ${SQL_USERS} (username) VALUES (?)`, [
+    "former",
+  ]);
+  await driver.query(`INSERT INTO ${SQL_TOKENS} (symbol) VALUES (?)`, [
+    "BTCUSD",
+  ]);
+  await driver.query(
+    `INSERT INTO ${SQL_TRADES_DEX} (${driver.dialect.quote(
+      "user"
+    )}, trade_id, trader_address, token, bias, size, sum_open, limit_price, start_date) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      1,
+      "dydx1trader-BTCUSD-LONG-1",
+      "dydx1trader",
+      "BTCUSD",
+      1,
+      "1",
+      "1",
+      "100",
+      "2024-01-01 00:00:00",
+    ]
+  );
+
+  await migrate(driver);
+  await checkSchema(driver);
+  await createStorage(driver).trades.save({
+    trades: [tradeRow("2024-01-02 00:00:00", "1")],
+    fills: [fillRow("dydx1trader-BTCUSD-LONG-1")],
+    notifications: [],
+  });
+
+  const { rows } = await driver.query(
+    `SELECT trade_id, subaccount, size, net_pnl, close_reason, unrealized_pnl FROM ${SQL_TRADES_DEX}`
+  );
+  return rows;
+}
+
+// The open trade of the former schema, closed after the upgrade
+const UPGRADED_TRADES = [
+  {
+    trade_id: "dydx1trader-BTCUSD-LONG-1",
+    subaccount: 0,
+    size: "0",
+    net_pnl: "10",
+    close_reason: "manual",
+    unrealized_pnl: "0",
+  },
+];
+
+describe("schema migrations", () => {
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  it("refuses an empty database and applies every migration once", async () => {
+    const driver = connectDatabase();
+    await expect(checkSchema(driver)).rejects.toThrow(
+      "Database schema is behind the code"
+    );
+
+    const applied = await migrate(driver);
+    expect(applied.map((migration) => migration.version)).toEqual(
+      loadMigrations("sqlite").map((migration) => migration.version)
+    );
+    await expect(checkSchema(driver)).resolves.toBeUndefined();
+    expect(await getPendingMigrations(driver)).toEqual([]);
+    expect(await migrate(driver)).toEqual([]);
+  });
+
+  it("stores the wallets with the columns the traders are selected by", async () => {
+    const user = await addUser("migrated");
+    await addWallet(user, "dydx1qqqsyqcyq5rqwzqfpg9scrgwpugpzysn20l73w", {
+      subaccounts: "0",
+      trader_type: DYDX_TRADER_TYPE,
+      server_group: null,
+    });
+    await addWallet(user, "dydx1other", {
+      subaccounts: "0",
+      trader_type: DYDX_TRADER_TYPE,
+      server_group: "other",
+    });
+
+    expect(await getTraders()).toEqual([
+      {
+        user,
+        address: "dydx1qqqsyqcyq5rqwzqfpg9scrgwpugpzysn20l73w",
+        subaccounts: "0",
+      },
+    ]);
+  });
+});
+
+describe("schema migrations over the former schema.sql", () => {
+  it("upgrades a SQLite database created from it", async () => {
+    const driver = createSqliteDriver(":memory:");
+    try {
+      expect(await upgradeFormerSchema(driver)).toEqual(UPGRADED_TRADES);
+    } finally {
+      await driver.close();
+    }
+  });
+
+  it("upgrades a PostgreSQL database created from it", async () => {
+    const { driver, stop } = await startPostgres();
+    try {
+      expect(await upgradeFormerSchema(driver)).toEqual(UPGRADED_TRADES);
+    } finally {
+      await stop();
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import fs from "fs";
+import { JOURNAL_DIR } from "../../src/constants";
+import {
+  SQL_TRACKER_INSTANCES,
+  SQL_TRADER_LEASES,
+  SQL_TRADES_DEX,
+} from "../../src/constants/tables";
+import { closeDatabase } from "../../src/config/database";
+import { aggregatePositions } from "../../src/services/processor";
+import { getDialect, sqlExecute } from "../../src/utils/database";
+import { handOverLeases, syncLeases } from "../../src/utils/sharding";
+import { getRows, setupDatabase } from "../support/database";
+
+const TRADERS = [
+  { id: "dydx1first/0", user: 1, address: "dydx1first", subaccount: 0 },
+  { id: "dydx1second/0", user: 1, address: "dydx1second", subaccount: 0 },
+];
+
+describe("sharding", () => {
+  beforeAll(async () => {
+    await setupDatabase(1, ["BTCUSD"]);
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    fs.rmSync(JOURNAL_DIR, { recursive: true, force: true });
+  });
+
+  it("hands a trader over once its pending trades are written", async () => {
+    expect(await syncLeases(TRADERS)).toEqual({
+      leased: new Set(["dydx1first/0", "dydx1second/0"]),
+      handover: [],
+    });
+
+    // The trade is still pending when a second instance joins the server group
+    await aggregatePositions({
+      user: 1,
+      trade_id: "dydx1second-BTCUSD-LONG-1",
+      trader_address: "dydx1second",
+      subaccount: 0,
+      token: "BTCUSD",
+      bias: 1,
+      size: "1",
+      sum_open: "1",
+      sum_close: "0",
+      limit_price: "100",
+      exit_price: "0",
+      start_date: "2024-01-01T00:00:00.000Z",
+      end_date: null,
+      funding: "0",
+      realised_pnl: "0",
+      gross_pnl: "0",
+      fees: "0",
+      net_pnl: "0",
+      pnl: "0",
+      is_profitable: 0,
+      close_reason: null,
+      type: "open",
+    } as any);
+    await sqlExecute(
+      `INSERT INTO ${SQL_TRACKER_INSTANCES} (instance_id, server_group, heartbeat_at)
+       VALUES (?, NULL, ${getDialect().now})`,
+      ["joining"]
+    );
+
+    expect(await syncLeases(TRADERS)).toEqual({
+      leased: new Set(["dydx1first/0"]),
+      handover: ["dydx1second/0"],
+    });
+    // The lease is kept until the trader is unsubscribed and its trade written
+    expect(await getRows(SQL_TRADER_LEASES)).toHaveLength(2);
+    expect(await getRows(SQL_TRADES_DEX)).toEqual([]);
+
+    expect(await handOverLeases(["dydx1second/0"])).toEqual(["dydx1second/0"]);
+    expect(await getRows(SQL_TRADES_DEX)).toMatchObject([
+      { trade_id: "dydx1second-BTCUSD-LONG-1", end_date: null },
+    ]);
+    expect(await getRows(SQL_TRADER_LEASES)).toMatchObject([
+      { subaccount_id: "dydx1first/0" },
+    ]);
+
+    // Takes the trader over once the joining instance stops
+    await sqlExecute(
+      `DELETE FROM ${SQL_TRACKER_INSTANCES} WHERE instance_id = ?`,
+      ["joining"]
+    );
+    expect(await syncLeases(TRADERS)).toEqual({
+      leased: new Set(["dydx1first/0", "dydx1second/0"]),
+      handover: [],
+    });
+  });
+});
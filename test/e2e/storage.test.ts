@@ -0,0 +1,59 @@
+import {
+  SQL_FILLS_DEX,
+  SQL_TOKENS,
+  SQL_TRADES_DEX,
+  SQL_USERS,
+} from "../../src/constants/tables";
+import { StorageDriverInterface } from "../../src/constants/interfaces";
+import { createStorage } from "../../src/storage";
+import { migrate } from "../../src/storage/migrations";
+import { fillRow, tradeRow } from "../support/database";
+import { startPostgres } from "../support/postgres";
+
+describe("postgres storage", () => {
+  let driver: StorageDriverInterface;
+  let stop: () => Promise<void>;
+
+  beforeAll(async () => {
+    ({ driver, stop } = await startPostgres());
+    await migrate(driver);
+    await driver.query(`INSERT INTO ${SQL_USERS} (username) VALUES (?)`, [
+      "trader",
+    ]);
+    await driver.query(`INSERT INTO ${SQL_TOKENS} (symbol) VALUES (?)`, [
+      "BTCUSD",
+    ]);
+  });
+
+  afterAll(async () => {
+    await stop();
+  });
+
+  it("writes a trade opened then closed in the same batch with its last row", async () => {
+    await createStorage(driver).trades.save({
+      trades: [tradeRow(null, "0"), tradeRow("2024-01-02 00:00:00", "1")],
+      fills: [fillRow("unknown"), fillRow("dydx1trader-BTCUSD-LONG-1")],
+      notifications: [],
+    });
+
+    const { rows: trades } = await driver.query(
+      `SELECT trade_id, size, sum_close, exit_price, net_pnl, close_reason FROM ${SQL_TRADES_DEX}`
+    );
+    expect(trades).toEqual([
+      {
+        trade_id: "dydx1trader-BTCUSD-LONG-1",
+        size: "0",
+        sum_close: "1",
+        exit_price: "110",
+        net_pnl: "10",
+        close_reason: "manual",
+      },
+    ]);
+    const { rows: fills } = await driver.query(
+      `SELECT fill_id, trade_id FROM ${SQL_FILLS_DEX}`
+    );
+    expect(fills).toEqual([
+      { fill_id: "fill-1", trade_id: "dydx1trader-BTCUSD-LONG-1" },
+    ]);
+  });
+});
@@ -0,0 +1,280 @@
+import fs from "fs";
+import Decimal from "decimal.js";
+import {
+  AMOUNT_DECIMALS,
+  JOURNAL_DIR,
+  MOCK_INDEXER_PORT,
+  PRICE_DECIMALS,
+} from "../../src/constants";
+import {
+  SQL_FILLS_DEX,
+  SQL_MESSAGES_QUARANTINE,
+  SQL_NOTIFICATIONS_OUTBOX,
+  SQL_TRADES_DEX,
+  SQL_USERS_STATS,
+} from "../../src/constants/tables";
+import { createMockIndexer } from "../../src/mock/indexer";
+import { SCENARIOS } from "../../src/mock/scenarios";
+import {
+  flushTrades,
+  getProcessorHealth,
+  waitForProcessor,
+} from "../../src/services/processor";
+import {
+  getSocketsHealth,
+  initWebSocketTraderMemory,
+} from "../../src/services/websocket";
+import { sqlExecute } from "../../src/utils/database";
+import {
+  recomputeAllStats,
+  updateClosedTradesStats,
+} from "../../src/utils/stats";
+import { trackSymbols } from "../../src/utils/symbols";
+import { closeDatabase } from "../../src/config/database";
+import { getRows, setupDatabase } from "../support/database";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Waits until the tracker has processed every message received and written every row.
+ */
+async function waitForTracker() {
+  let stableChecks = 0;
+  let lastCount = -1;
+  while (stableChecks < 3) {
+    await delay(200);
+    await waitForProcessor();
+    await flushTrades();
+    const busy = getSocketsHealth().some((socket) =>
+      socket.traders.some((trader) => trader.queue_depth > 0)
+    );
+    const count =
+      (await getRows(SQL_TRADES_DEX)).length +
+      (await getRows(SQL_NOTIFICATIONS_OUTBOX)).length;
+    stableChecks =
+      !busy && getProcessorHealth().pending_rows === 0 && count === lastCount
+        ? stableChecks + 1
+        : 0;
+    lastCount = count;
+  }
+}
+
+/**
+ * Gets the trades of a scenario, with their amounts converted back to decimals.
+ * @param {string} name - The name of the scenario.
+ * @returns {Promise<any[]>} - The trades of the trader of the scenario, by start date.
+ */
+async function getTrades(name: string): Promise<any[]> {
+  const address = SCENARIOS.find((s) => s.name === name)!.address;
+  const amount = (value: string | null) =>
+    value === null
+      ? null
+      : new Decimal(value).div(new Decimal(10).pow(AMOUNT_DECIMALS)).toString();
+  const price = (value: string | null) =>
+    value === null
+      ? null
+      : new Decimal(value).div(new Decimal(10).pow(PRICE_DECIMALS)).toString();
+  return (await getRows(SQL_TRADES_DEX))
+    .filter((trade) => trade.trader_address === address)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))
+    .map((trade) => ({
+      ...trade,
+      size: amount(trade.size),
+      sum_open: amount(trade.sum_open),
+      sum_close: amount(trade.sum_close),
+      gross_pnl: amount(trade.gross_pnl),
+      fees: amount(trade.fees),
+      net_pnl: amount(trade.net_pnl),
+      limit_price: price(trade.limit_price),
+      exit_price: price(trade.exit_price),
+    }));
+}
+
+/**
+ * Gets the kinds of trade events notified for a scenario, in the order they were recorded.
+ * @param {string} name - The name of the scenario.
+ * @returns {Promise<string[]>} - The events of the trader of the scenario.
+ */
+async function getEvents(name: string): Promise<string[]> {
+  const address = SCENARIOS.find((s) => s.name === name)!.address;
+  return (await getRows(SQL_NOTIFICATIONS_OUTBOX))
+    .map((notification) => JSON.parse(notification.message))
+    .filter((message) => message.trader?.address === address)
+    .map((message) => message.event);
+}
+
+describe("tracker against the mock indexer", () => {
+  const mock = createMockIndexer(SCENARIOS);
+  const subscriptions: { closeConnection: () => Promise<void> }[] = [];
+
+  beforeAll(async () => {
+    const symbols = ["BTCUSD", "ETHUSD", "SOLUSD"];
+    await setupDatabase(SCENARIOS.length, symbols);
+    trackSymbols(symbols);
+    await mock.start(MOCK_INDEXER_PORT);
+    for (const [user, scenario] of SCENARIOS.entries()) {
+      subscriptions.push(
+        await initWebSocketTraderMemory(
+          scenario.address,
+          user + 1,
+          scenario.subaccount
+        )
+      );
+    }
+    await mock.finished;
+    await waitForTracker();
+  });
+
+  afterAll(async () => {
+    for (const subscription of subscriptions) {
+      await subscription.closeConnection();
+    }
+    await mock.close();
+    await closeDatabase();
+    fs.rmSync(JOURNAL_DIR, { recursive: true, force: true });
+  });
+
+  it("follows a trade through open, add, partial close and full close", async () => {
+    const trades = await getTrades("lifecycle");
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({
+      token: "BTCUSD",
+      bias: 1,
+      size: "2",
+      sum_open: "2",
+      limit_price: "103",
+      exit_price: "127.5",
+      gross_pnl: "49",
+      fees: "0.4",
+      net_pnl: "48.6",
+      is_profitable: 1,
+      close_reason: "manual",
+    });
+    expect(trades[0].end_date).not.toBeNull();
+    expect(await getEvents("lifecycle")).toEqual([
+      "opened",
+      "increased",
+      "reduced",
+      "closed",
+    ]);
+  });
+
+  it("closes the long and opens a short when the position is flipped", async () => {
+    const trades = await getTrades("flip");
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      token: "ETHUSD",
+      bias: 1,
+      exit_price: "1100",
+      gross_pnl: "200",
+      close_reason: "flipped",
+    });
+    expect(trades[1]).toMatchObject({
+      token: "ETHUSD",
+      bias: 0,
+      limit_price: "1100",
+      exit_price: "1050",
+      gross_pnl: "50",
+      close_reason: "manual",
+    });
+    expect(trades[1].end_date).not.toBeNull();
+    expect(await getEvents("flip")).toEqual([
+      "opened",
+      "flipped",
+      "opened",
+      "closed",
+    ]);
+  });
+
+  it("backfills the trade closed while disconnected", async () => {
+    const trades = await getTrades("disconnect");
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      token: "BTCUSD",
+      exit_price: "90",
+      gross_pnl: "-10",
+      is_profitable: 0,
+    });
+    expect(trades[0].end_date).not.toBeNull();
+    expect(trades[1]).toMatchObject({ token: "ETHUSD", size: "1" });
+    expect(trades[1].end_date).toBeNull();
+    expect(await getEvents("disconnect")).toEqual([
+      "opened",
+      "closed",
+      "opened",
+    ]);
+  });
+
+  it("resubscribes an undefined account without duplicating the trade", async () => {
+    const trades = await getTrades("undefined_account");
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({
+      token: "SOLUSD",
+      size: "10",
+      exit_price: "25",
+      gross_pnl: "50",
+      net_pnl: "49.6",
+    });
+    expect(await getEvents("undefined_account")).toEqual(["opened", "closed"]);
+  });
+
+  it("quarantines the malformed change and keeps following the trade", async () => {
+    const trades = await getTrades("malformed");
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({
+      token: "BTCUSD",
+      size: "1",
+      exit_price: "110",
+      gross_pnl: "10",
+    });
+    expect(await getEvents("malformed")).toEqual(["opened", "closed"]);
+
+    const quarantined = await getRows(SQL_MESSAGES_QUARANTINE);
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0]).toMatchObject({
+      source: "dydx1mockmalformed/0",
+      reason: "position BTC-USD with invalid sumOpen",
+    });
+    expect(
+      JSON.parse(quarantined[0].payload).contents.perpetualPositions
+    ).toEqual([{ market: "BTC-USD", side: "LONG", status: "OPEN", size: "2" }]);
+  });
+
+  it("updates the stats from the closing trades as a full recompute would", async () => {
+    const getStats = async () =>
+      (await getRows(SQL_USERS_STATS)).map(({ timestamp, ...stats }) => stats);
+    await recomputeAllStats();
+    const recomputed = await getStats();
+
+    // Stats as of before the last trade of the flip closed, then updated from its close
+    const [, last] = await getTrades("flip");
+    await sqlExecute(
+      `UPDATE ${SQL_TRADES_DEX} SET end_date = NULL WHERE trade_id = ?`,
+      [last.trade_id]
+    );
+    await recomputeAllStats();
+    await sqlExecute(
+      `UPDATE ${SQL_TRADES_DEX} SET end_date = ? WHERE trade_id = ?`,
+      [last.end_date, last.trade_id]
+    );
+    const flipUser = SCENARIOS.findIndex((s) => s.name === "flip") + 1;
+    expect(await getStats()).toContainEqual(
+      expect.objectContaining({ user: flipUser, token: "ALL", trades: 1 })
+    );
+
+    await updateClosedTradesStats([[flipUser, last.trade_id, "close"]]);
+    expect(await getStats()).toEqual(recomputed);
+  });
+
+  it("records the fills of every trade", async () => {
+    const fills = await getRows(SQL_FILLS_DEX);
+    const ids = SCENARIOS.flatMap((scenario) =>
+      scenario.steps.flatMap((step) =>
+        [step, ...(step.missed || [])].flatMap((s) =>
+          (s.fills || []).map((fill) => fill.id)
+        )
+      )
+    );
+    expect(fills.map((fill) => fill.fill_id).sort()).toEqual(ids.sort());
+  });
+});
@@ -0,0 +1,93 @@
+import { SQL_TOKENS, SQL_USERS } from "../../src/constants/tables";
+import { sqlExecute, sqlQuery } from "../../src/utils/database";
+import { connectDatabase } from "../../src/config/database";
+import { migrate } from "../../src/storage/migrations";
+
+/**
+ * Migrates the test database to the schema of the tracker, and adds the users and tokens
+ * referenced by the trades.
+ * @param {number} users - The number of users to add, with ids from 1.
+ * @param {string[]} symbols - The symbols of the tokens to add.
+ */
+export async function setupDatabase(users: number, symbols: string[]) {
+  await migrate(connectDatabase());
+  for (let user = 1; user <= users; user++) {
+    await sqlExecute(`INSERT INTO ${SQL_USERS} (id, username) VALUES (?, ?)`, [
+      user,
+      `user${user}`,
+    ]);
+  }
+  for (const symbol of symbols) {
+    await sqlExecute(`INSERT INTO ${SQL_TOKENS} (symbol) VALUES (?)`, [symbol]);
+  }
+}
+
+/**
+ * Gets the rows of a table, in insertion order.
+ * @param {string} table - The name of the table.
+ * @returns {Promise<any[]>} - The rows of the table.
+ */
+export async function getRows(table: string): Promise<any[]> {
+  return sqlQuery(`SELECT * FROM ${table} ORDER BY rowid`);
+}
+
+/**
+ * Builds the row of a trade of user 1 on BTCUSD, in the order of the columns written by the
+ * trades repository, open or closed with a profit of 10.
+ * @param {string | null} end_date - The date the trade was closed, or null if it is open.
+ * @param {string} sum_close - The size closed.
+ * @returns {any[]} - The values of the trade.
+ */
+export function tradeRow(end_date: string | null, sum_close: string): any[] {
+  return [
+    1, // user
+    "dydx1trader-BTCUSD-LONG-1", // trade_id
+    "dydx1trader",
+    0, // subaccount
+    "BTCUSD",
+    1, // bias
+    end_date ? "0" : "1", // size
+    "1", // sum_open
+    sum_close,
+    "100", // limit_price
+    end_date ? "110" : null, // exit_price
+    "2024-01-01 00:00:00", // start_date
+    end_date,
+    "0", // funding
+    "0", // realised_pnl
+    end_date ? "10" : "0", // gross_pnl
+    "0", // fees
+    end_date ? "10" : "0", // net_pnl
+    end_date ? "10" : "0", // pnl
+    end_date ? 1 : 0, // is_profitable
+    end_date ? "manual" : null, // close_reason
+    "2024-01-01 00:00:00", // timestamp
+  ];
+}
+
+/**
+ * Builds the row of a fill of user 1 on BTCUSD, in the order of the columns written by the
+ * trades repository.
+ * @param {string} trade_id - The trade the fill is linked to.
+ * @returns {any[]} - The values of the fill.
+ */
+export function fillRow(trade_id: string): any[] {
+  return [
+    "fill-1",
+    trade_id,
+    1, // user
+    "dydx1trader",
+    0, // subaccount
+    "BTCUSD",
+    "order-1",
+    "BUY",
+    "1", // size
+    "100", // price
+    "0", // fee
+    "TAKER",
+    "LIMIT",
+    1000, // block_height
+    "2024-01-01 00:00:00", // created_at
+    "2024-01-01 00:00:00", // timestamp
+  ];
+}
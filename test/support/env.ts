@@ -0,0 +1,22 @@
+import os from "os";
+import path from "path";
+
+// The tracker runs against the mock indexer, with its journals in a temporary directory
+const port = process.env.MOCK_INDEXER_PORT || "18090";
+process.env.MOCK_INDEXER_PORT = port;
+process.env.DYDX_WEBSOCKET_URI = `ws://127.0.0.1:${port}/v4/ws`;
+process.env.DYDX_INDEXER_URI = `http://127.0.0.1:${port}/v4`;
+process.env.DYDX_SUBACCOUNTS_CHANNEL = "v4_subaccounts";
+process.env.JOURNAL_DIR = path.join(os.tmpdir(), `dydx-e2e-${process.pid}`);
+process.env.ALERT_RULES_FILE = path.join(
+  process.env.JOURNAL_DIR,
+  "alerts.json"
+);
+process.env.COPY_TRADING_FILE = path.join(
+  process.env.JOURNAL_DIR,
+  "copy_trading.json"
+);
+
+// The tracker writes to an in-memory SQLite database, created by the suites
+process.env.DB_CLIENT = "sqlite";
+process.env.SQLITE_FILE = ":memory:";
@@ -0,0 +1,30 @@
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+
+/**
+ * Serves an in-memory PostgreSQL database (PGlite, the PostgreSQL engine compiled to
+ * WebAssembly) on the port given as argument, until the process is terminated. Run in its
+ * own process by startPostgres, the sandbox of the suites being unable to load the engine.
+ */
+async function serve(port: number) {
+  const db = await PGlite.create();
+  const server = new PGLiteSocketServer({
+    db,
+    port,
+    host: "127.0.0.1",
+    maxConnections: 10,
+  });
+  await server.start();
+
+  process.on("SIGTERM", async () => {
+    await server.stop();
+    await db.close();
+    process.exit(0);
+  });
+  process.send?.("ready");
+}
+
+serve(parseInt(process.argv[2], 10)).catch((error) => {
+  console.error("Failed to start PGlite:", error);
+  process.exit(1);
+});
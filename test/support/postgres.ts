@@ -0,0 +1,58 @@
+import net from "net";
+import path from "path";
+import { fork } from "child_process";
+import { StorageDriverInterface } from "../../src/constants/interfaces";
+import { createPostgresDriver } from "../../src/storage/postgres";
+
+/**
+ * Gets a free TCP port of the loopback interface.
+ * @returns {Promise<number>} - The port.
+ */
+function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Starts a PostgreSQL server (see pglite-server.ts) and connects the PostgreSQL client of
+ * the tracker to it, so the suites run the queries of the tracker on PostgreSQL without a
+ * database server.
+ * @returns {Promise<Object>} - The client, and the function stopping the client and the server.
+ */
+export async function startPostgres(): Promise<{
+  driver: StorageDriverInterface;
+  stop: () => Promise<void>;
+}> {
+  const port = await getFreePort();
+  const server = fork(path.join(__dirname, "pglite-server.ts"), [`${port}`], {
+    execArgv: ["-r", "ts-node/register/transpile-only"],
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("message", () => resolve());
+    server.once("exit", (code) =>
+      reject(new Error(`PGlite exited with code ${code}`))
+    );
+  });
+
+  const driver = createPostgresDriver({
+    host: "127.0.0.1",
+    port,
+    user: "postgres",
+    database: "postgres",
+  });
+  return {
+    driver,
+    stop: async () => {
+      await driver.close();
+      const exited = new Promise((resolve) => server.once("exit", resolve));
+      server.kill();
+      await exited;
+    },
+  };
+}